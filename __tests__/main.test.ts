@@ -1,4 +1,8 @@
 import { jest } from '@jest/globals';
+import { createHash } from 'node:crypto';
+import { mkdir, mkdtemp, readFile, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { PendingAnnotation } from '../src/main';
 
 // Type for mutable context in tests
@@ -37,7 +41,11 @@ await jest.unstable_mockModule('@actions/core', () => {
 		getMultilineInput: make('getMultilineInput'),
 		setFailed: make('setFailed'),
 		setOutput: make('setOutput'),
-	} as typeof import('@actions/core');
+		summary: {
+			addRaw: make('summaryAddRaw').mockReturnThis(),
+			write: make('summaryWrite'),
+		},
+	} as unknown as typeof import('@actions/core');
 });
 
 await jest.unstable_mockModule('@actions/github', () => {
@@ -82,6 +90,12 @@ let mockOctokit: {
 		};
 		pulls: {
 			listFiles: jest.Mock<any>;
+			createReview: jest.Mock<any>;
+			get: jest.Mock<any>;
+		};
+		checks: {
+			create: jest.Mock<any>;
+			update: jest.Mock<any>;
 		};
 	};
 	graphql: jest.Mock<any>;
@@ -99,6 +113,7 @@ describe('action', () => {
 			repo: 'test-repo',
 		};
 		(github.context as any).sha = 'testsha';
+		(github.context as any).job = 'test';
 		// Simple logging mock (can redirect to stdout for debugging if desired)
 		const logMock = jest.fn();
 		coreMocks.debug.mockImplementation(logMock);
@@ -160,6 +175,12 @@ describe('action', () => {
 				},
 				pulls: {
 					listFiles: jest.fn().mockResolvedValue({ data: [] }),
+					createReview: jest.fn().mockResolvedValue({}),
+					get: jest.fn(),
+				},
+				checks: {
+					create: jest.fn().mockResolvedValue({ data: { id: 42 } }),
+					update: jest.fn().mockResolvedValue({}),
 				},
 			},
 			graphql: jest.fn(),
@@ -428,19 +449,370 @@ at Tests.Registration.main(Registration.java:202)`,
 		expect(setOutputMock).toHaveBeenCalledWith('total', 2);
 	});
 
+	it('should support sarif files', async () => {
+		testInputs.reports = ['sarif|fixtures/sarif.json'];
+		await main.run();
+		expect(errorMock).toHaveBeenCalledWith(
+			'This query string depends on a user-provided value.\nhttps://codeql.github.com/codeql-query-help/javascript/js-sql-injection/',
+			{
+				title:
+					'js/sql-injection: Database query built from user-controlled sources',
+				file: 'src/db/my query.ts',
+				startLine: 12,
+				endLine: 14,
+				startColumn: 5,
+				endColumn: 20,
+			},
+		);
+		expect(noticeMock).toHaveBeenCalledWith('Unused variable {0}.', {
+			title: 'js/unused-local-variable: Unused variable',
+			file: 'src/app.ts',
+			startLine: 3,
+			endLine: undefined,
+			startColumn: undefined,
+			endColumn: undefined,
+		});
+		expect(warningMock).toHaveBeenCalledWith(
+			'Avoid eval with dynamic content.\nhttps://semgrep.dev/r/javascript.lang.security.detect-eval',
+			{
+				title: 'javascript.lang.security.detect-eval: Detected eval()',
+				file: 'src/eval.js',
+				startLine: 8,
+				endLine: undefined,
+				startColumn: 3,
+				endColumn: undefined,
+			},
+		);
+		expect(warningMock).toHaveBeenCalledWith(
+			'Finding without a rule descriptor.',
+			expect.objectContaining({
+				title: 'custom.unknown',
+				file: 'README.md',
+				startLine: 1,
+			}),
+		);
+		// Results with level none and passed checks are ignored.
+		expect(setOutputMock).toHaveBeenCalledWith('errors', 1);
+		expect(setOutputMock).toHaveBeenCalledWith('warnings', 2);
+		expect(setOutputMock).toHaveBeenCalledWith('notices', 1);
+		expect(setOutputMock).toHaveBeenCalledWith('total', 4);
+	});
+
+	it('should support checkstyle files', async () => {
+		testInputs.reports = ['checkstyle|fixtures/checkstyle.xml'];
+		await main.run();
+		expect(errorMock).toHaveBeenCalledWith(
+			"'x' is assigned a value but never used.",
+			{
+				title: 'eslint.rules.no-unused-vars',
+				file: 'src/app.ts',
+				startLine: 1,
+				endLine: undefined,
+				startColumn: 7,
+				endColumn: undefined,
+			},
+		);
+		expect(warningMock).toHaveBeenCalledWith(
+			'Unexpected console statement.',
+			expect.objectContaining({
+				title: 'eslint.rules.no-console',
+				file: 'src/app.ts',
+				startLine: 4,
+			}),
+		);
+		expect(noticeMock).toHaveBeenCalledWith(
+			'exported function Handle should have comment or be unexported',
+			expect.objectContaining({
+				title: 'revive',
+				file: 'internal/server/handler.go',
+				startLine: 12,
+				startColumn: 2,
+			}),
+		);
+		// Errors without a severity default to error.
+		expect(errorMock).toHaveBeenCalledWith(
+			'Unnecessary semicolon',
+			expect.objectContaining({
+				title: 'ktlint:standard:no-semi',
+				file: 'src/main/kotlin/App.kt',
+				startLine: 3,
+				startColumn: undefined,
+			}),
+		);
+		// Errors with the ignore severity are ignored.
+		expect(setOutputMock).toHaveBeenCalledWith('errors', 2);
+		expect(setOutputMock).toHaveBeenCalledWith('warnings', 1);
+		expect(setOutputMock).toHaveBeenCalledWith('notices', 1);
+		expect(setOutputMock).toHaveBeenCalledWith('total', 4);
+	});
+
+	it('should support eslint json files', async () => {
+		testInputs.reports = ['eslint-json|fixtures/eslint.json'];
+		await main.run();
+		expect(errorMock).toHaveBeenCalledWith(
+			"'total' is never reassigned. Use 'const' instead.\nhttps://eslint.org/docs/latest/rules/prefer-const",
+			{
+				title: 'prefer-const',
+				file: 'src/app.ts',
+				startLine: 5,
+				endLine: 5,
+				startColumn: 6,
+				endColumn: 11,
+			},
+		);
+		expect(warningMock).toHaveBeenCalledWith(
+			'Unexpected console statement.\nhttps://eslint.org/docs/latest/rules/no-console',
+			expect.objectContaining({
+				title: 'no-console',
+				file: 'src/app.ts',
+				startLine: 3,
+			}),
+		);
+		expect(setOutputMock).toHaveBeenCalledWith('total', 2);
+	});
+
+	it('should support custom text matchers with named groups', async () => {
+		testInputs['custom-matchers'] = JSON.stringify({
+			shellcheck: {
+				format: 'text',
+				item: '^(?<file>[^:]+):(?<line>\\d+):(?<column>\\d+): (?<severity>\\w+): (?<message>.*) \\[(?<code>SC\\d+)\\]$',
+				level: { warning: 'severity=^warn', notice: 'severity=^note' },
+				message: 'message',
+				title: 'code',
+				file: 'file',
+				startLine: 'line',
+				startColumn: 'column',
+			},
+		});
+		testInputs.reports = ['shellcheck|fixtures/shellcheck.txt'];
+		await main.run();
+		expect(warningMock).toHaveBeenCalledWith(
+			'Quote this to prevent word splitting.',
+			{
+				title: 'SC2046',
+				file: 'script/release',
+				startLine: 12,
+				endLine: undefined,
+				startColumn: 8,
+				endColumn: undefined,
+			},
+		);
+		expect(noticeMock).toHaveBeenCalledWith(
+			'Not following: ./env was not specified as input.',
+			expect.objectContaining({ title: 'SC1091', startLine: 30 }),
+		);
+		expect(errorMock).toHaveBeenCalledWith(
+			"Couldn't parse this test expression.",
+			expect.objectContaining({ title: 'SC1073', startLine: 41 }),
+		);
+		expect(setOutputMock).toHaveBeenCalledWith('total', 3);
+	});
+
+	it('should support problem matchers', async () => {
+		testInputs['problem-matchers'] = ['fixtures/*-problem-matcher.json'];
+		testInputs.reports = [
+			'tsc|fixtures/tsc.txt',
+			'eslint-stylish|fixtures/eslint-stylish.txt',
+		];
+		await main.run();
+		expect(infoMock).toHaveBeenCalledWith(
+			'Loaded problem matcher tsc from fixtures/tsc-problem-matcher.json',
+		);
+		expect(errorMock).toHaveBeenCalledWith(
+			"Type 'string' is not assignable to type 'number'.",
+			{
+				title: '2322',
+				file: 'src/app.ts',
+				startLine: 5,
+				endLine: undefined,
+				startColumn: 7,
+				endColumn: undefined,
+			},
+		);
+		// Multi-line pattern with loop, defaulting to the matcher severity.
+		expect(warningMock).toHaveBeenCalledWith('Unexpected console statement', {
+			title: 'no-console',
+			file: 'src/app.ts',
+			startLine: 3,
+			endLine: undefined,
+			startColumn: 2,
+			endColumn: undefined,
+		});
+		expect(errorMock).toHaveBeenCalledWith(
+			"'total' is never reassigned. Use 'const' instead",
+			expect.objectContaining({ title: 'prefer-const', startLine: 5 }),
+		);
+		expect(noticeMock).toHaveBeenCalledWith(
+			'Unexpected unused export',
+			expect.objectContaining({ file: 'src/sum.ts', startLine: 1 }),
+		);
+		expect(setOutputMock).toHaveBeenCalledWith('errors', 3);
+		expect(setOutputMock).toHaveBeenCalledWith('warnings', 1);
+		expect(setOutputMock).toHaveBeenCalledWith('notices', 1);
+	});
+
+	it('should reject problem matchers resolving files with fromPath', async () => {
+		const file = join(
+			await mkdtemp(join(tmpdir(), 'report-annotate-')),
+			'msbuild-problem-matcher.json',
+		);
+		await writeFile(
+			file,
+			JSON.stringify({
+				problemMatcher: [
+					{
+						owner: 'msbuild',
+						pattern: [
+							{
+								regexp: '^(.+)\\((\\d+)\\): (.+) \\[(.+)\\]$',
+								file: 1,
+								line: 2,
+								message: 3,
+								fromPath: 4,
+							},
+						],
+					},
+				],
+			}),
+		);
+		testInputs['problem-matchers'] = [file];
+		await expect(main.run()).rejects.toThrow(
+			'Problem matcher msbuild uses fromPath, which is not supported',
+		);
+	});
+
+	it('should report unknown capture groups in text matchers', async () => {
+		testInputs['custom-matchers'] = JSON.stringify({
+			shellcheck: {
+				format: 'text',
+				item: '^(?<file>[^:]+):(?<line>\\d+):',
+				message: 'message',
+				file: 'file',
+			},
+		});
+		testInputs.reports = ['shellcheck|fixtures/shellcheck.txt'];
+		await expect(main.run()).rejects.toThrow('Unknown capture group "message"');
+	});
+
 	it('should handle unsupported matcher format', async () => {
 		testInputs.reports = ['unsupported|fixtures/junit-generic.xml'];
 		testInputs['custom-matchers'] = `{
 			"unsupported": {
-				"format": "json",
+				"format": "csv",
 				"item": "//testcase",
 				"message": "text()",
 				"file": "@file"
 			}
 		}`;
 		await expect(main.run()).rejects.toThrow(
-			'Unsupported matcher format in unsupported: json',
+			'Unsupported matcher format in unsupported: csv',
+		);
+	});
+
+	it('should support custom json matchers', async () => {
+		testInputs['custom-matchers'] = JSON.stringify({
+			'eslint-custom': {
+				format: 'json',
+				item: '$[*].messages[*]',
+				level: { warning: 'eq(severity, 1)' },
+				message: 'message',
+				title: "concat(replace(^.filePath, '.*/', ''), ' - ', ruleId)",
+				file: '^.filePath',
+				startLine: 'line',
+				endLine: 'endLine',
+				startColumn: 'column',
+				endColumn: '@.endColumn',
+			},
+		});
+		testInputs.reports = ['eslint-custom|fixtures/eslint.json'];
+		await main.run();
+		expect(warningMock).toHaveBeenCalledWith('Unexpected console statement.', {
+			title: 'app.ts - no-console',
+			file: 'src/app.ts',
+			startLine: 3,
+			endLine: 3,
+			startColumn: 2,
+			endColumn: 13,
+		});
+		expect(errorMock).toHaveBeenCalledWith(
+			"'total' is never reassigned. Use 'const' instead.",
+			{
+				title: 'app.ts - prefer-const',
+				file: 'src/app.ts',
+				startLine: 5,
+				endLine: 5,
+				startColumn: 6,
+				endColumn: 11,
+			},
+		);
+		expect(setOutputMock).toHaveBeenCalledWith('errors', 1);
+		expect(setOutputMock).toHaveBeenCalledWith('warnings', 1);
+		expect(setOutputMock).toHaveBeenCalledWith('total', 2);
+	});
+
+	it('should support json lines reports and json path functions', async () => {
+		testInputs['custom-matchers'] = JSON.stringify({
+			cargo: {
+				format: 'json',
+				item: '$[*].message',
+				level: {
+					ignore: "not(eq(^.reason, 'compiler-message'))",
+					warning: "eq(level, 'warning')",
+				},
+				message:
+					"normalize(if(contains(message, '`'), replace(message, '`(\\w+)`', '$1'), message))",
+				file: 'spans[0].file_name',
+				startLine: "match(concat('L', spans[0].line_start), 'L(\\d+)')",
+				startColumn: "spans[0]['column_start']",
+			},
+		});
+		testInputs.reports = ['cargo|fixtures/json-lines.jsonl'];
+		await main.run();
+		expect(warningMock).toHaveBeenCalledWith('unused variable: x', {
+			title: undefined,
+			file: 'src/main.rs',
+			startLine: 2,
+			endLine: undefined,
+			startColumn: 9,
+			endColumn: undefined,
+		});
+		expect(errorMock).toHaveBeenCalledWith(
+			'mismatched types',
+			expect.objectContaining({ file: 'src/lib.rs', startLine: 7 }),
+		);
+		expect(setOutputMock).toHaveBeenCalledWith('total', 2);
+	});
+
+	it('should report json path expression errors', async () => {
+		testInputs['custom-matchers'] = JSON.stringify({
+			'eslint-custom': {
+				format: 'json',
+				item: '$[*].messages[*]',
+				message: 'concat(message',
+				file: '^.filePath',
+			},
+		});
+		testInputs.reports = ['eslint-custom|fixtures/eslint.json'];
+		await expect(main.run()).rejects.toThrow(
+			'Error parsing JSON path expression "concat(message": Unexpected end of expression',
+		);
+	});
+
+	it('should warn when a json path selects no items', async () => {
+		testInputs['custom-matchers'] = JSON.stringify({
+			'eslint-custom': {
+				format: 'json',
+				item: '$[*].warnings[*]',
+				message: 'message',
+				file: '^.filePath',
+			},
+		});
+		testInputs.reports = ['eslint-custom|fixtures/eslint.json'];
+		await main.run();
+		expect(warningMock).toHaveBeenCalledWith(
+			"No items found in fixtures/eslint.json using JSON path '$[*].warnings[*]'",
 		);
+		expect(setOutputMock).toHaveBeenCalledWith('total', 0);
 	});
 
 	it('should handle reports with no items', async () => {
@@ -467,6 +839,89 @@ at Tests.Registration.main(Registration.java:202)`,
 		expect(setOutputMock).toHaveBeenCalledWith('notices', 1);
 	});
 
+	it('should change annotation levels with overrides', async () => {
+		testInputs.configPath = 'fixtures/overrides-config.yml';
+		testInputs['problem-matchers'] = ['fixtures/tsc-problem-matcher.json'];
+		testInputs.reports = ['tsc|fixtures/tsc.txt'];
+		await main.run();
+		expect(infoMock).toHaveBeenCalledWith(
+			'Overrides changed the level of 2 annotation(s), 1 are ignored.',
+		);
+		expect(warningMock).toHaveBeenCalledWith(
+			"Type 'string' is not assignable to type 'number'.",
+			expect.objectContaining({ file: 'src/app.ts', title: '2322' }),
+		);
+		expect(errorMock).not.toHaveBeenCalled();
+		expect(noticeMock).not.toHaveBeenCalled();
+		expect(setOutputMock).toHaveBeenCalledWith('warnings', 1);
+		expect(setOutputMock).toHaveBeenCalledWith('total', 1);
+	});
+
+	it('should rewrite file paths with path mappings', async () => {
+		testInputs.configPath = 'fixtures/path-mappings-config.yml';
+		testInputs['problem-matchers'] = ['fixtures/tsc-problem-matcher.json'];
+		testInputs.reports = ['tsc|fixtures/tsc-paths.txt'];
+		await main.run();
+		expect(errorMock).toHaveBeenCalledWith(
+			expect.any(String),
+			expect.objectContaining({ file: 'src/app.ts', startLine: 5 }),
+		);
+		expect(errorMock).toHaveBeenCalledWith(
+			expect.any(String),
+			expect.objectContaining({ file: 'src/win.ts', startLine: 1 }),
+		);
+		expect(errorMock).toHaveBeenCalledWith(
+			expect.any(String),
+			expect.objectContaining({
+				file: 'packages/foo/lib/index.ts',
+				startLine: 2,
+			}),
+		);
+	});
+
+	it('should deduplicate identical annotations across reports', async () => {
+		const dir = await mkdtemp(join(tmpdir(), 'report-annotate-'));
+		await writeFile(
+			join(dir, 'tsc.txt'),
+			await readFile('fixtures/tsc.txt', 'utf8'),
+		);
+		testInputs['problem-matchers'] = ['fixtures/tsc-problem-matcher.json'];
+		testInputs.reports = [`tsc|fixtures/tsc.txt,${dir}/tsc.txt`];
+		testInputs.deduplicate = 'all';
+		await main.run();
+		expect(infoMock).toHaveBeenCalledWith(
+			'Merged 2 duplicate annotation(s), 2 remain.',
+		);
+		expect(errorMock).toHaveBeenCalledWith(
+			"Type 'string' is not assignable to type 'number'. (found 2 times)",
+			expect.objectContaining({ file: 'src/app.ts', startLine: 5 }),
+		);
+		expect(setOutputMock).toHaveBeenCalledWith('errors', 2);
+
+		// The count is not part of the finding e.g. in the SARIF export.
+		jest.clearAllMocks();
+		testInputs['sarif-output'] = join(dir, 'findings.sarif');
+		await main.run();
+		const sarif = JSON.parse(
+			await readFile(join(dir, 'findings.sarif'), 'utf8'),
+		);
+		expect(sarif.runs[0].results[0].message.text).not.toContain('found');
+	});
+
+	it('should throw error for invalid override level', async () => {
+		const configFile = join(
+			await mkdtemp(join(tmpdir(), 'report-annotate-')),
+			'config.yml',
+		);
+		await writeFile(configFile, 'overrides:\n  - title: x\n    level: fatal\n');
+		testInputs.configPath = configFile;
+		testInputs['problem-matchers'] = ['fixtures/tsc-problem-matcher.json'];
+		testInputs.reports = ['tsc|fixtures/tsc.txt'];
+		await expect(main.run()).rejects.toThrow(
+			"Invalid override level 'fatal', expected one of error, warning, notice, ignore.",
+		);
+	});
+
 	it('should handle skipped annotations', async () => {
 		testInputs.reports = ['junit|fixtures/junit-many-errors.xml'];
 		testInputs['max-annotations'] = '2'; // Force skipping
@@ -798,76 +1253,803 @@ at Tests.Registration.main(Registration.java:202)`,
 		expect(mockOctokit.rest.issues.createComment).not.toHaveBeenCalled();
 	});
 
-	it('should handle pagination when fetching comments', async () => {
-		// Mock GitHub context to be on a PR
-		(github.context as MutableContext).payload = {
-			pull_request: { number: 123, head: { sha: 'abc123' } },
-		};
-		testInputs.reports = ['junit|fixtures/junit-many-errors.xml'];
-		testInputs['max-annotations'] = '2';
-		// Mock listFiles
-		mockOctokit.rest.pulls.listFiles.mockResolvedValue({
-			data: [{ filename: 'tests/registration.code' }],
+	it('should publish annotations through a check run', async () => {
+		testInputs['custom-matchers'] = JSON.stringify({
+			lines: {
+				format: 'text',
+				item: '^(?<file>[^:]+):(?<line>\\d+): warning: (?<message>.*)$',
+				level: { warning: 'message' },
+				message: 'message',
+				file: 'file',
+				startLine: 'line',
+			},
 		});
-		// Mock listComments to return full page on first call, then empty page
-		mockOctokit.rest.issues.listComments
-			.mockResolvedValueOnce({
-				data: Array(100)
-					.fill(null)
-					.map((_, i) => ({
-						id: i + 1,
-						node_id: `comment${i + 1}`,
-						body: '## Report Annotations\n\nOld comment',
-					})),
-			})
-			.mockResolvedValueOnce({
-				data: [],
-			});
-		// Mock graphql for minimizing comments
-		mockOctokit.graphql.mockResolvedValue({});
-		mockOctokit.rest.issues.createComment.mockResolvedValue({});
+		testInputs.reports = [
+			'lines|fixtures/many-warnings.txt',
+			'junit|fixtures/junit-many-errors.xml',
+		];
+		testInputs['check-run'] = 'single';
 		await main.run();
-		expect(mockOctokit.rest.issues.listComments).toHaveBeenCalledTimes(2);
-		expect(mockOctokit.rest.issues.listComments).toHaveBeenCalledWith({
+		// Nothing is emitted as workflow commands.
+		expect(warningMock).not.toHaveBeenCalledWith(
+			'Line 1 is too long',
+			expect.anything(),
+		);
+		expect(mockOctokit.rest.checks.create).toHaveBeenCalledWith({
 			owner: 'test-owner',
 			repo: 'test-repo',
-			issue_number: 123,
-			page: 1,
-			per_page: 100,
+			name: 'Report Annotate',
+			head_sha: 'testsha',
+			status: 'in_progress',
+			output: {
+				title: '❌ 3 errors, ⚠️ 60 warnings',
+				summary: '**Summary:** Found ❌ 3 errors, ⚠️ 60 warnings.',
+			},
 		});
-		expect(mockOctokit.rest.issues.listComments).toHaveBeenCalledWith({
-			owner: 'test-owner',
-			repo: 'test-repo',
-			issue_number: 123,
-			page: 2,
-			per_page: 100,
+		// 63 annotations are uploaded in two batches, then the run is completed.
+		const updates = mockOctokit.rest.checks.update.mock.calls.map(
+			call => call[0],
+		);
+		expect(updates).toHaveLength(3);
+		expect(updates[0].output.annotations).toHaveLength(50);
+		expect(updates[0].output.annotations[0]).toEqual({
+			path: 'tests/many-errors.code',
+			start_line: 10,
+			end_line: 10,
+			annotation_level: 'failure',
+			message: 'First error occurred.\nError details for first error',
+			title: 'Tests.ManyErrors - errorTest1',
 		});
-		expect(mockOctokit.graphql).toHaveBeenCalledTimes(100);
+		expect(updates[1].output.annotations).toHaveLength(13);
+		expect(updates[2]).toEqual(
+			expect.objectContaining({
+				check_run_id: 42,
+				status: 'completed',
+				conclusion: 'failure',
+			}),
+		);
+		// No annotations are skipped as check runs have no per-type limit.
+		expect(setOutputMock).toHaveBeenCalledWith('errors', 3);
+		expect(setOutputMock).toHaveBeenCalledWith('warnings', 60);
+		expect(setOutputMock).toHaveBeenCalledWith('total', 63);
 	});
 
-	it('should handle GraphQL minimization failure for individual comments', async () => {
-		// Mock GitHub context to be on a PR
+	it('should create a check run per matcher', async () => {
 		(github.context as MutableContext).payload = {
 			pull_request: { number: 123, head: { sha: 'abc123' } },
 		};
-		testInputs.reports = ['junit|fixtures/junit-many-errors.xml'];
-		testInputs['max-annotations'] = '2';
-		// Mock listFiles
+		testInputs.reports = [
+			'junit-eslint|fixtures/junit-eslint.xml',
+			'junit|fixtures/empty-report.xml',
+		];
+		testInputs['check-run'] = 'per-matcher';
+		testInputs['check-name'] = 'Lint';
+		testInputs['always-comment-errors'] = 'false';
 		mockOctokit.rest.pulls.listFiles.mockResolvedValue({
-			data: [{ filename: 'tests/registration.code' }],
-		});
-		// Mock listComments to return bot comments
-		mockOctokit.rest.issues.listComments.mockResolvedValue({
-			data: [
-				{
-					id: 1,
-					node_id: 'comment1',
-					body: '## Report Annotations\n\nOld comment',
-				},
-			],
+			data: [{ filename: 'cypress/plugins/s3-email-client/s3-utils.ts' }],
 		});
-		// Mock graphql to fail for minimization
-		const graphqlError = new Error('GraphQL Error');
+		mockOctokit.rest.issues.listComments.mockResolvedValue({ data: [] });
+		await main.run();
+		expect(mockOctokit.rest.checks.create).toHaveBeenCalledWith(
+			expect.objectContaining({
+				name: 'Lint (junit-eslint)',
+				head_sha: 'abc123',
+			}),
+		);
+		expect(mockOctokit.rest.checks.create).toHaveBeenCalledWith(
+			expect.objectContaining({
+				name: 'Lint (junit)',
+				output: { title: 'No issues found', summary: '✅ No issues found.' },
+			}),
+		);
+		expect(mockOctokit.rest.checks.update).toHaveBeenCalledWith(
+			expect.objectContaining({ status: 'completed', conclusion: 'success' }),
+		);
+		expect(mockOctokit.rest.checks.update).toHaveBeenCalledWith(
+			expect.objectContaining({
+				output: expect.objectContaining({
+					annotations: [
+						expect.objectContaining({
+							annotation_level: 'failure',
+							start_column: 28,
+							end_column: 28,
+						}),
+						expect.objectContaining({ annotation_level: 'warning' }),
+					],
+				}),
+			}),
+		);
+	});
+
+	it('should handle check run API failure', async () => {
+		testInputs['check-run'] = 'single';
+		mockOctokit.rest.checks.create.mockRejectedValue(new Error('Forbidden'));
+		await main.run();
+		expect(errorMock).toHaveBeenCalledWith(
+			'Failed to create check run Report Annotate: Error: Forbidden',
+		);
+	});
+
+	it('should write a job summary with all findings', async () => {
+		testInputs['job-summary'] = 'true';
+		testInputs['problem-matchers'] = ['fixtures/tsc-problem-matcher.json'];
+		testInputs['custom-matchers'] = JSON.stringify({
+			lines: {
+				format: 'text',
+				item: '^(?<file>[^:]+):(?<line>\\d+): warning: (?<message>.*)$',
+				level: { warning: 'message' },
+				message: 'message',
+				file: 'file',
+				startLine: 'line',
+			},
+		});
+		testInputs.reports = [
+			'tsc|fixtures/tsc.txt',
+			'lines|fixtures/many-warnings.txt',
+		];
+		await main.run();
+		expect(coreMocks.summaryWrite).toHaveBeenCalled();
+		const body = coreMocks.summaryAddRaw.mock.calls[0][0] as string;
+		expect(body).toContain('**Summary:** Found ❌ 2 errors, ⚠️ 60 warnings.');
+		expect(body).toContain('| tsc | 2 | 0 | 0 |');
+		expect(body).toContain('| lines | 0 | 60 | 0 |');
+		expect(body).toContain(
+			'<summary>src/app.ts (❌ 1 error, ⚠️ 60 warnings)</summary>',
+		);
+		expect(body).toContain(
+			"| [5](https://github.com/test-owner/test-repo/blob/testsha/src/app.ts#L5) | ❌ error | 2322 | Type 'string' is not assignable to type 'number'. |",
+		);
+		// Skipped annotations link to the blob view without a PR.
+		expect(body).toContain('### Skipped Annotations');
+		expect(body).toContain(
+			'- [src/app.ts#L11](https://github.com/test-owner/test-repo/blob/testsha/src/app.ts#L11) Line 11 is too long',
+		);
+		expect(body).not.toContain('/pull/');
+	});
+
+	it('should write a job summary when no reports are found', async () => {
+		testInputs['job-summary'] = 'true';
+		testInputs.reports = ['junit-eslint|fixtures/does-not-exist.xml'];
+		await main.run();
+		expect(coreMocks.summaryAddRaw).toHaveBeenCalledWith(
+			'## Report Annotations\n\n⚠️ No configured report files were found.\n',
+		);
+	});
+
+	it('should not write a job summary by default', async () => {
+		await main.run();
+		expect(coreMocks.summaryWrite).not.toHaveBeenCalled();
+	});
+
+	it('should set the test result outputs of junit reports', async () => {
+		testInputs.reports = [
+			'junit|fixtures/junit-generic.xml',
+			'junit-jest|fixtures/junit-jest.xml',
+		];
+		await main.run();
+		expect(setOutputMock).toHaveBeenCalledWith('tests', 13);
+		expect(setOutputMock).toHaveBeenCalledWith('passed', 8);
+		expect(setOutputMock).toHaveBeenCalledWith('failed', 4);
+		expect(setOutputMock).toHaveBeenCalledWith('skipped', 1);
+		expect(setOutputMock).toHaveBeenCalledWith('duration', 17.666);
+		expect(mockOctokit.rest.issues.createComment).not.toHaveBeenCalled();
+	});
+
+	it('should comment a table of the test results', async () => {
+		(github.context as MutableContext).payload = {
+			pull_request: { number: 123, head: { sha: 'abc123' } },
+		};
+		testInputs.reports = [
+			'junit|fixtures/junit-generic.xml',
+			'junit-jest|fixtures/junit-jest.xml',
+		];
+		testInputs['always-comment-errors'] = 'false';
+		testInputs['test-results'] = 'true';
+		testInputs['job-summary'] = 'true';
+		mockOctokit.rest.pulls.listFiles.mockResolvedValue({
+			data: [
+				{ filename: 'tests/registration.code' },
+				{ filename: 'next-gen/src/modules/paytrail/paytrail.service.spec.ts' },
+			],
+		});
+		await main.run();
+		const { body } = mockOctokit.rest.issues.createComment.mock.calls[0][0];
+		expect(body).toContain(
+			'### Test Results\n\n❌ 8 passed, 4 failed and 1 skipped of 13 tests in 17.7s.\n\n',
+		);
+		expect(body).toContain(
+			'| ❌ Tests.Registration | 8 | 5 | 2 | 1 | 16.1s |\n| ❌ PaytrailService | 5 | 3 | 2 | 0 | 1.6s |',
+		);
+		const summary = coreMocks.summaryAddRaw.mock.calls[0][0] as string;
+		expect(summary).toContain('| ❌ PaytrailService | 5 | 3 | 2 | 0 | 1.6s |');
+	});
+
+	it('should annotate and list the slowest tests', async () => {
+		testInputs.reports = ['junit|fixtures/junit-generic.xml'];
+		testInputs['slow-test-threshold'] = '2.5';
+		testInputs['max-slow-tests'] = '4';
+		testInputs['job-summary'] = 'true';
+		await main.run();
+		expect(noticeMock).toHaveBeenCalledWith(
+			'Took 3.8s, over the slow test threshold of 2.5s.',
+			expect.objectContaining({
+				title: 'Slow test: Tests.Registration - testCase6',
+				file: 'tests/registration.code',
+				startLine: 235,
+			}),
+		);
+		expect(setOutputMock).toHaveBeenCalledWith('notices', 4);
+		const summary = coreMocks.summaryAddRaw.mock.calls[0][0] as string;
+		const blobUrl =
+			'https://github.com/test-owner/test-repo/blob/testsha/tests/registration.code';
+		expect(summary).toContain(
+			`### Slowest Tests\n\n3 tests took longer than 2.5s.\n\n| Test | Suite | Duration |\n| --- | --- | ---: |\n| 🐢 [Tests.Registration - testCase6](${blobUrl}#L235) | Tests.Registration | 3.8s |\n`,
+		);
+		expect(summary).toContain(
+			`| [Tests.Registration - testCase1](${blobUrl}#L24) | Tests.Registration | 2.4s |\n\n`,
+		);
+	});
+
+	it('should reject a non-numeric slow test threshold', async () => {
+		testInputs.reports = ['junit|fixtures/junit-generic.xml'];
+		testInputs['slow-test-threshold'] = '2.5s';
+		await expect(main.run()).rejects.toThrow(
+			'Invalid slow-test-threshold "2.5s", expected a duration in seconds.',
+		);
+		testInputs['slow-test-threshold'] = '2.5';
+		testInputs['max-slow-tests'] = 'ten';
+		await expect(main.run()).rejects.toThrow(
+			'Invalid max-slow-tests "ten", expected the number of tests to list.',
+		);
+	});
+
+	it('should report tests that passed on a retry as flaky', async () => {
+		(github.context as MutableContext).payload = {
+			pull_request: { number: 123, head: { sha: 'abc123' } },
+		};
+		testInputs.reports = ['junit|fixtures/junit-flaky.xml'];
+		testInputs['fail-on'] = 'notice';
+		mockOctokit.rest.pulls.listFiles.mockResolvedValue({
+			data: [
+				{ filename: 'src/test/java/com/example/CheckoutTest.java' },
+				{ filename: 'tests/test_cart.py' },
+				{ filename: 'tests/test_orders.py' },
+			],
+		});
+		await main.run();
+		expect(noticeMock).toHaveBeenCalledWith(
+			'Timed out waiting for payment\njava.lang.AssertionError: Timed out waiting for payment',
+			expect.objectContaining({
+				title: 'com.example.CheckoutTest - shouldPay',
+				startLine: 21,
+			}),
+		);
+		expect(noticeMock).toHaveBeenCalledWith(
+			'AssertionError: cart is empty\nAssertionError: cart is empty',
+			expect.objectContaining({ title: 'tests.test_cart - test_add_item' }),
+		);
+		expect(errorMock).toHaveBeenCalledTimes(3);
+		expect(errorMock).toHaveBeenCalledWith(
+			'expected: 10 but was: 0\njava.lang.AssertionError: expected: 10 but was: 0',
+			expect.objectContaining({
+				title: 'com.example.CheckoutTest - shouldRefund',
+			}),
+		);
+		expect(errorMock).toHaveBeenCalledWith(
+			"KeyError: 'sku'\nKeyError: 'sku'",
+			expect.objectContaining({ title: 'tests.test_cart - test_remove_item' }),
+		);
+		// A failure after a passing test of the same name is not a retry.
+		expect(errorMock).toHaveBeenCalledWith(
+			'AssertionError: 0 != 10\nAssertionError: 0 != 10',
+			expect.objectContaining({ startLine: 20 }),
+		);
+		const { body } = mockOctokit.rest.issues.createComment.mock.calls[0][0];
+		expect(body).toContain(
+			'### Flaky Tests\n\nThe following tests failed before passing on a retry, they are not counted as errors:\n\n',
+		);
+		expect(body).toContain(
+			'| [com.example.CheckoutTest - shouldPay](https://github.com/test-owner/test-repo/blob/abc123/src/test/java/com/example/CheckoutTest.java#L21) | 3 | Timed out waiting for payment |',
+		);
+		expect(body).toContain(
+			'| [tests.test_cart - test_add_item](https://github.com/test-owner/test-repo/blob/abc123/tests/test_cart.py#L12) | 2 | AssertionError: cart is empty |',
+		);
+		// A retried test is counted once, with the result of its last attempt,
+		// while the tests of the same name in tests.test_orders are both counted.
+		expect(setOutputMock).toHaveBeenCalledWith('tests', 7);
+		expect(setOutputMock).toHaveBeenCalledWith('passed', 4);
+		expect(setOutputMock).toHaveBeenCalledWith('failed', 3);
+		// The flaky notices are left out of the fail thresholds.
+		expect(setFailedMock).toHaveBeenCalledWith(
+			'Found 3 errors (max 0), exceeding the configured thresholds.',
+		);
+	});
+
+	describe('fail thresholds', () => {
+		beforeEach(() => {
+			testInputs['problem-matchers'] = ['fixtures/tsc-problem-matcher.json'];
+			testInputs['custom-matchers'] = JSON.stringify({
+				lines: {
+					format: 'text',
+					item: '^(?<file>[^:]+):(?<line>\\d+): warning: (?<message>.*)$',
+					level: { warning: 'message' },
+					message: 'message',
+					file: 'file',
+					startLine: 'line',
+				},
+			});
+			testInputs.reports = [
+				'tsc|fixtures/tsc.txt',
+				'lines|fixtures/many-warnings.txt',
+			];
+		});
+
+		it('should not fail by default', async () => {
+			await main.run();
+			expect(setFailedMock).not.toHaveBeenCalled();
+		});
+
+		it('should fail on errors after setting the outputs', async () => {
+			testInputs['fail-on'] = 'error';
+			await main.run();
+			expect(setFailedMock).toHaveBeenCalledWith(
+				'Found 2 errors (max 0), exceeding the configured thresholds.',
+			);
+			expect(setOutputMock).toHaveBeenCalledWith('errors', 2);
+		});
+
+		it('should allow annotations within the budgets', async () => {
+			testInputs['fail-on'] = 'notice';
+			testInputs['max-errors'] = '2';
+			testInputs['max-warnings'] = '59';
+			await main.run();
+			expect(setFailedMock).toHaveBeenCalledWith(
+				'Found 60 warnings (max 59), exceeding the configured thresholds.',
+			);
+		});
+
+		it('should reject a non-numeric budget', async () => {
+			testInputs['fail-on'] = 'error';
+			testInputs['max-warnings'] = 'abc';
+			await expect(main.run()).rejects.toThrow(
+				'Invalid max-warnings "abc", expected the number of allowed annotations.',
+			);
+		});
+
+		it('should only count annotations on changed lines', async () => {
+			(github.context as MutableContext).payload = {
+				pull_request: { number: 123, head: { sha: 'abc123' } },
+			};
+			testInputs['fail-on'] = 'warning';
+			testInputs['fail-scope'] = 'changed-lines';
+			mockOctokit.rest.pulls.listFiles.mockResolvedValue({
+				data: [{ filename: 'src/app.ts', patch: '@@ -5 +5 @@\n-a\n+b' }],
+			});
+			mockOctokit.rest.issues.listComments.mockResolvedValue({ data: [] });
+			mockOctokit.rest.issues.createComment.mockResolvedValue({});
+			await main.run();
+			expect(setFailedMock).toHaveBeenCalledWith(
+				'Found 1 error (max 0), 1 warning (max 0), exceeding the configured thresholds.',
+			);
+			// The PR comment is posted before failing.
+			expect(mockOctokit.rest.issues.createComment).toHaveBeenCalled();
+		});
+	});
+
+	describe('comment key', () => {
+		beforeEach(() => {
+			(github.context as MutableContext).payload = {
+				pull_request: { number: 123, head: { sha: 'abc123' } },
+			};
+			mockOctokit.rest.pulls.listFiles.mockResolvedValue({
+				data: [{ filename: 'cypress/plugins/s3-email-client/s3-utils.ts' }],
+			});
+			mockOctokit.rest.issues.listComments.mockResolvedValue({
+				data: [
+					{ id: 1, node_id: 'c1', body: '## Report Annotations\n\nOld' },
+					{
+						id: 2,
+						node_id: 'c2',
+						body: '## Report Annotations\n<!-- report-annotate:key=lint -->\n\nOld',
+					},
+					{
+						id: 3,
+						node_id: 'c3',
+						body: '## Report Annotations (test)\n<!-- report-annotate:key=test -->\n\nOld',
+					},
+				],
+			});
+			mockOctokit.graphql.mockResolvedValue({});
+		});
+
+		it('should only update comments with the same key', async () => {
+			testInputs['comment-method'] = 'update';
+			testInputs['comment-key'] = 'lint';
+			testInputs['show-comment-key'] = 'true';
+			await main.run();
+			expect(mockOctokit.rest.issues.updateComment).toHaveBeenCalledTimes(1);
+			const { comment_id, body } =
+				mockOctokit.rest.issues.updateComment.mock.calls[0][0];
+			expect(comment_id).toBe(2);
+			expect(body).toMatch(
+				/^## Report Annotations \(lint\)\n<!-- report-annotate:key=lint -->\n/,
+			);
+		});
+
+		it('should only minimize comments of the job with an auto key', async () => {
+			testInputs['comment-key'] = 'auto';
+			await main.run();
+			expect(mockOctokit.graphql).toHaveBeenCalledTimes(1);
+			expect(mockOctokit.graphql).toHaveBeenCalledWith(expect.any(String), {
+				input: { subjectId: 'c3', classifier: 'OUTDATED' },
+			});
+			const { body } = mockOctokit.rest.issues.createComment.mock.calls[0][0];
+			// The key is hidden by default.
+			expect(body).toMatch(
+				/^## Report Annotations\n<!-- report-annotate:key=test -->\n/,
+			);
+		});
+
+		it('should use the job label in an auto key', async () => {
+			testInputs['comment-key'] = 'auto';
+			testInputs['job-label'] = 'test-node-20';
+			await main.run();
+			// The comment of the job id is another matrix entry's.
+			expect(mockOctokit.graphql).not.toHaveBeenCalled();
+			const { body } = mockOctokit.rest.issues.createComment.mock.calls[0][0];
+			expect(body).toMatch(
+				/^## Report Annotations\n<!-- report-annotate:key=test-node-20 -->\n/,
+			);
+		});
+
+		it('should ignore comments with a key without a key', async () => {
+			testInputs['comment-method'] = 'update';
+			await main.run();
+			expect(mockOctokit.rest.issues.updateComment).toHaveBeenCalledWith(
+				expect.objectContaining({ comment_id: 1 }),
+			);
+		});
+	});
+
+	it('should show findings new and fixed since the last run', async () => {
+		(github.context as MutableContext).payload = {
+			pull_request: { number: 123, head: { sha: 'abc123' } },
+		};
+		testInputs['problem-matchers'] = ['fixtures/tsc-problem-matcher.json'];
+		testInputs.reports = ['tsc|fixtures/tsc.txt'];
+		testInputs['comment-method'] = 'update';
+		mockOctokit.rest.pulls.listFiles.mockResolvedValue({
+			data: [{ filename: 'src/app.ts' }, { filename: 'src/sum.ts' }],
+		});
+		const findingId = (file: string, title: string, message: string) =>
+			`e${createHash('sha256')
+				.update([file, title, message].join('\u0000'))
+				.digest('hex')
+				.slice(0, 8)}`;
+		const appError = findingId(
+			'src/app.ts',
+			'2322',
+			"Type 'string' is not assignable to type 'number'.",
+		);
+		const sumError = findingId(
+			'src/sum.ts',
+			'2554',
+			'Expected # arguments, but got #.',
+		);
+		mockOctokit.rest.issues.listComments.mockResolvedValue({
+			data: [
+				{
+					id: 1,
+					node_id: 'c1',
+					body: `## Report Annotations\n<!-- report-annotate:findings ${appError},w12345678 -->\n\nOld`,
+				},
+			],
+		});
+		await main.run();
+		const { body } = mockOctokit.rest.issues.updateComment.mock.calls[0][0];
+		expect(body).toContain(
+			`<!-- report-annotate:findings ${appError},${sumError} -->`,
+		);
+		expect(body).toContain(
+			'**Summary:** Found ❌ 2 errors (1 new, 1 fixed since last run).',
+		);
+		expect(body).toMatch(
+			/### New Since Last Run\n\n<details>\n<summary>❌ CAUTION \(1\)<\/summary>\n\n- \[src\/sum.ts#L12\]/,
+		);
+		expect(body).toContain(
+			'### Fixed Since Last Run\n\n✅ ⚠️ 1 warning fixed since the last run.',
+		);
+	});
+
+	it('should only annotate findings not in the base reports', async () => {
+		(github.context as MutableContext).payload = {
+			pull_request: { number: 123, head: { sha: 'abc123' } },
+		};
+		testInputs['problem-matchers'] = ['fixtures/tsc-problem-matcher.json'];
+		testInputs.reports = ['tsc|fixtures/tsc.txt'];
+		testInputs['base-reports'] = ['tsc|fixtures/tsc-base.txt'];
+		testInputs['fail-on'] = 'error';
+		mockOctokit.rest.pulls.listFiles.mockResolvedValue({
+			data: [{ filename: 'src/app.ts' }, { filename: 'src/sum.ts' }],
+		});
+		mockOctokit.rest.issues.listComments.mockResolvedValue({ data: [] });
+		mockOctokit.rest.issues.createComment.mockResolvedValue({});
+		await main.run();
+		// The error moved from line 3 to 5 in the PR, so it is pre-existing.
+		expect(infoMock).toHaveBeenCalledWith(
+			'1 annotation(s) also exist in the base reports, 1 are new.',
+		);
+		expect(errorMock).not.toHaveBeenCalledWith(
+			"Type 'string' is not assignable to type 'number'.",
+			expect.anything(),
+		);
+		expect(errorMock).toHaveBeenCalledWith(
+			'Expected 2 arguments, but got 1.',
+			expect.objectContaining({ file: 'src/sum.ts' }),
+		);
+		expect(setFailedMock).toHaveBeenCalledWith(
+			'Found 1 error (max 0), exceeding the configured thresholds.',
+		);
+		const { body } = mockOctokit.rest.issues.createComment.mock.calls[0][0];
+		expect(body).toContain('**Summary:** Found ❌ 1 error.');
+		expect(body).toContain(
+			"### Pre-existing Annotations\n\nThe following annotations also exist in the base branch reports:\n\n<details>\n<summary>❌ CAUTION (1)</summary>\n\n- [src/app.ts#L5](https://github.com/test-owner/test-repo/blob/abc123/src/app.ts#L5) Type 'string' is not assignable to type 'number'.",
+		);
+	});
+
+	it('should comment when all findings are pre-existing', async () => {
+		(github.context as MutableContext).payload = {
+			pull_request: { number: 123, head: { sha: 'abc123' } },
+		};
+		testInputs['problem-matchers'] = ['fixtures/tsc-problem-matcher.json'];
+		testInputs.reports = ['tsc|fixtures/tsc.txt'];
+		testInputs['base-reports'] = ['tsc|fixtures/tsc.txt'];
+		mockOctokit.rest.pulls.listFiles.mockResolvedValue({
+			data: [{ filename: 'src/app.ts' }, { filename: 'src/sum.ts' }],
+		});
+		mockOctokit.rest.issues.listComments.mockResolvedValue({ data: [] });
+		mockOctokit.rest.issues.createComment.mockResolvedValue({});
+		await main.run();
+		expect(errorMock).not.toHaveBeenCalled();
+		const { body } = mockOctokit.rest.issues.createComment.mock.calls[0][0];
+		expect(body).toContain('### Pre-existing Annotations');
+	});
+
+	describe('review comment method', () => {
+		const eslintFile = 'cypress/plugins/s3-email-client/s3-utils.ts';
+		const fingerprint = (line: number, message: string) =>
+			createHash('sha256')
+				.update(`${eslintFile}:${line}:${message}`)
+				.digest('hex')
+				.slice(0, 16);
+		let resolvedThreads: string[];
+
+		beforeEach(() => {
+			(github.context as MutableContext).payload = {
+				pull_request: { number: 123, head: { sha: 'abc123' } },
+			};
+			testInputs['comment-method'] = 'review';
+			mockOctokit.rest.issues.listComments.mockResolvedValue({ data: [] });
+			resolvedThreads = [];
+			mockOctokit.graphql.mockImplementation(
+				async (query: string, variables: any) => {
+					if (query.includes('ResolveReviewThread')) {
+						resolvedThreads.push(variables.input.threadId);
+						return {};
+					}
+					return {
+						repository: {
+							pullRequest: {
+								reviewThreads: {
+									nodes: [
+										{
+											id: 'open-thread',
+											isResolved: false,
+											comments: {
+												nodes: [
+													{
+														body: `⚠️ Missing JSDoc comment.\n\n<!-- report-annotate:review ${fingerprint(2, 'Missing JSDoc comment.')} -->`,
+													},
+												],
+											},
+										},
+										{
+											id: 'fixed-thread',
+											isResolved: false,
+											comments: {
+												nodes: [
+													{
+														body: '❌ Old\n\n<!-- report-annotate:review 0123456789abcdef -->',
+													},
+												],
+											},
+										},
+										{
+											id: 'human-thread',
+											isResolved: false,
+											comments: { nodes: [{ body: 'Please rename this' }] },
+										},
+									],
+									pageInfo: { hasNextPage: false, endCursor: null },
+								},
+							},
+						},
+					};
+				},
+			);
+		});
+
+		it('should suggest the autofix of eslint json findings', async () => {
+			const dir = await mkdtemp(join(tmpdir(), 'report-annotate-'));
+			const [result] = JSON.parse(
+				await readFile('fixtures/eslint.json', 'utf8'),
+			);
+			await mkdir(join(dir, 'src'));
+			await writeFile(join(dir, 'src/app.ts'), result.source);
+			await writeFile(
+				join(dir, 'eslint.json'),
+				JSON.stringify([{ ...result, filePath: join(dir, 'src/app.ts') }]),
+			);
+			process.env.GITHUB_WORKSPACE = dir;
+			testInputs.reports = [`eslint-json|${dir}/eslint.json`];
+			mockOctokit.rest.pulls.listFiles.mockResolvedValue({
+				data: [{ filename: 'src/app.ts', patch: '@@ -0,0 +1,6 @@\n+a' }],
+			});
+			await main.run();
+			const { comments } = mockOctokit.rest.pulls.createReview.mock.calls[0][0];
+			expect(comments).toEqual([
+				expect.objectContaining({
+					path: 'src/app.ts',
+					line: 5,
+					start_line: undefined,
+					body: expect.stringContaining(
+						'\n\n```suggestion\nconst total = sum(1, 2);\n```\n\n',
+					),
+				}),
+				// Removing the statement leaves an empty line.
+				expect.objectContaining({
+					path: 'src/app.ts',
+					line: 3,
+					body: expect.stringContaining('\n\n```suggestion\n\n```\n\n'),
+				}),
+			]);
+		});
+
+		it('should post findings on changed lines as a review', async () => {
+			mockOctokit.rest.pulls.listFiles.mockResolvedValue({
+				data: [{ filename: eslintFile, patch: '@@ -1,2 +1,9 @@\n+a' }],
+			});
+			await main.run();
+			expect(mockOctokit.rest.pulls.createReview).toHaveBeenCalledWith({
+				owner: 'test-owner',
+				repo: 'test-repo',
+				pull_number: 123,
+				commit_id: 'abc123',
+				event: 'COMMENT',
+				body: '## Report Annotations\n\nFound ❌ 1 error, ⚠️ 1 warning on changed lines.',
+				// The warning already has an open thread from a previous run.
+				comments: [
+					{
+						path: eslintFile,
+						line: 7,
+						start_line: undefined,
+						side: 'RIGHT',
+						body: `❌ **\`@typescript-eslint/dot-notation\`**\n\n["Bucket"] is better written in dot notation.\n\n<!-- report-annotate:review ${fingerprint(7, '["Bucket"] is better written in dot notation.')} -->`,
+					},
+				],
+			});
+			// Only the bot thread of the fixed finding is resolved.
+			expect(resolvedThreads).toEqual(['fixed-thread']);
+			// Everything was reviewed, so no summary comment is needed.
+			expect(mockOctokit.rest.issues.createComment).not.toHaveBeenCalled();
+			expect(mockOctokit.rest.issues.updateComment).not.toHaveBeenCalled();
+		});
+
+		it('should fall back to the summary comment for lines outside the diff hunks', async () => {
+			mockOctokit.rest.pulls.listFiles.mockResolvedValue({
+				data: [{ filename: eslintFile, patch: '@@ -1,2 +1,3 @@\n+a' }],
+			});
+			await main.run();
+			expect(mockOctokit.rest.pulls.createReview).not.toHaveBeenCalled();
+			const createCommentCall =
+				mockOctokit.rest.issues.createComment.mock.calls[0][0];
+			expect(createCommentCall.body).toContain(
+				'["Bucket"] is better written in dot notation.',
+			);
+			expect(createCommentCall.body).not.toContain('Missing JSDoc comment.');
+		});
+
+		it('should fall back to the summary comment when the review fails', async () => {
+			mockOctokit.rest.pulls.listFiles.mockResolvedValue({
+				data: [{ filename: eslintFile, patch: '@@ -1,2 +1,9 @@\n+a' }],
+			});
+			mockOctokit.rest.pulls.createReview.mockRejectedValue(
+				new Error('Unprocessable Entity'),
+			);
+			await main.run();
+			expect(warningMock).toHaveBeenCalledWith(
+				'Failed to create PR review: Error: Unprocessable Entity',
+			);
+			expect(mockOctokit.rest.issues.createComment).toHaveBeenCalledWith(
+				expect.objectContaining({
+					body: expect.stringContaining(
+						'["Bucket"] is better written in dot notation.',
+					),
+				}),
+			);
+		});
+	});
+
+	it('should handle pagination when fetching comments', async () => {
+		// Mock GitHub context to be on a PR
+		(github.context as MutableContext).payload = {
+			pull_request: { number: 123, head: { sha: 'abc123' } },
+		};
+		testInputs.reports = ['junit|fixtures/junit-many-errors.xml'];
+		testInputs['max-annotations'] = '2';
+		// Mock listFiles
+		mockOctokit.rest.pulls.listFiles.mockResolvedValue({
+			data: [{ filename: 'tests/registration.code' }],
+		});
+		// Mock listComments to return full page on first call, then empty page
+		mockOctokit.rest.issues.listComments
+			.mockResolvedValueOnce({
+				data: Array(100)
+					.fill(null)
+					.map((_, i) => ({
+						id: i + 1,
+						node_id: `comment${i + 1}`,
+						body: '## Report Annotations\n\nOld comment',
+					})),
+			})
+			.mockResolvedValueOnce({
+				data: [],
+			});
+		// Mock graphql for minimizing comments
+		mockOctokit.graphql.mockResolvedValue({});
+		mockOctokit.rest.issues.createComment.mockResolvedValue({});
+		await main.run();
+		expect(mockOctokit.rest.issues.listComments).toHaveBeenCalledTimes(2);
+		expect(mockOctokit.rest.issues.listComments).toHaveBeenCalledWith({
+			owner: 'test-owner',
+			repo: 'test-repo',
+			issue_number: 123,
+			page: 1,
+			per_page: 100,
+		});
+		expect(mockOctokit.rest.issues.listComments).toHaveBeenCalledWith({
+			owner: 'test-owner',
+			repo: 'test-repo',
+			issue_number: 123,
+			page: 2,
+			per_page: 100,
+		});
+		expect(mockOctokit.graphql).toHaveBeenCalledTimes(100);
+	});
+
+	it('should handle GraphQL minimization failure for individual comments', async () => {
+		// Mock GitHub context to be on a PR
+		(github.context as MutableContext).payload = {
+			pull_request: { number: 123, head: { sha: 'abc123' } },
+		};
+		testInputs.reports = ['junit|fixtures/junit-many-errors.xml'];
+		testInputs['max-annotations'] = '2';
+		// Mock listFiles
+		mockOctokit.rest.pulls.listFiles.mockResolvedValue({
+			data: [{ filename: 'tests/registration.code' }],
+		});
+		// Mock listComments to return bot comments
+		mockOctokit.rest.issues.listComments.mockResolvedValue({
+			data: [
+				{
+					id: 1,
+					node_id: 'comment1',
+					body: '## Report Annotations\n\nOld comment',
+				},
+			],
+		});
+		// Mock graphql to fail for minimization
+		const graphqlError = new Error('GraphQL Error');
 		mockOctokit.graphql.mockRejectedValue(graphqlError);
 		mockOctokit.rest.issues.createComment.mockResolvedValue({});
 		await main.run();
@@ -948,6 +2130,418 @@ at Tests.Registration.main(Registration.java:202)`,
 		expect(setOutputMock).toHaveBeenCalledWith('total', 0);
 	});
 
+	it('should export the findings as a SARIF file', async () => {
+		const sarifFile = join(
+			await mkdtemp(join(tmpdir(), 'report-annotate-')),
+			'findings.sarif',
+		);
+		testInputs['problem-matchers'] = ['fixtures/tsc-problem-matcher.json'];
+		testInputs.reports = ['tsc|fixtures/tsc.txt'];
+		testInputs['sarif-output'] = sarifFile;
+		await main.run();
+		expect(infoMock).toHaveBeenCalledWith(
+			`Wrote 2 finding(s) to SARIF file ${sarifFile}.`,
+		);
+		const sarif = JSON.parse(await readFile(sarifFile, 'utf8'));
+		expect(sarif.version).toBe('2.1.0');
+		expect(sarif.runs).toHaveLength(1);
+		expect(sarif.runs[0].tool.driver).toMatchObject({
+			name: 'tsc',
+			rules: [{ id: '2322' }, { id: '2554' }],
+		});
+		expect(sarif.runs[0].results[0]).toEqual({
+			ruleId: '2322',
+			level: 'error',
+			message: { text: "Type 'string' is not assignable to type 'number'." },
+			locations: [
+				{
+					physicalLocation: {
+						artifactLocation: { uri: 'src/app.ts', uriBaseId: '%SRCROOT%' },
+						region: { startLine: 5, startColumn: 7 },
+					},
+				},
+			],
+			partialFingerprints: {
+				'reportAnnotate/v1': expect.stringMatching(/^[0-9a-f]{16}$/),
+			},
+		});
+
+		// The exported file can be read back with the sarif matcher.
+		jest.clearAllMocks();
+		testInputs = { reports: [`sarif|${sarifFile}`] };
+		await main.run();
+		expect(errorMock).toHaveBeenCalledWith(
+			"Type 'string' is not assignable to type 'number'.",
+			expect.objectContaining({
+				title: '2322',
+				file: 'src/app.ts',
+				startLine: 5,
+			}),
+		);
+	});
+
+	it('should write the findings to a JSON file', async () => {
+		const findingsFile = join(
+			await mkdtemp(join(tmpdir(), 'report-annotate-')),
+			'findings.json',
+		);
+		testInputs['problem-matchers'] = ['fixtures/tsc-problem-matcher.json'];
+		testInputs.reports = ['tsc|fixtures/tsc.txt'];
+		testInputs['max-annotations'] = '1';
+		testInputs['findings-output'] = findingsFile;
+		await main.run();
+		expect(setOutputMock).toHaveBeenCalledWith('findings-file', findingsFile);
+		const output = JSON.parse(await readFile(findingsFile, 'utf8'));
+		expect(output.version).toBe(1);
+		expect(output.findings).toEqual([
+			{
+				level: 'error',
+				message: "Type 'string' is not assignable to type 'number'.",
+				title: '2322',
+				file: 'src/app.ts',
+				startLine: 5,
+				startColumn: 7,
+				matcher: 'tsc',
+				report: 'fixtures/tsc.txt',
+				fingerprint: expect.stringMatching(/^[0-9a-f]{16}$/),
+				occurrences: 1,
+				diffScope: null,
+				inDiff: null,
+				status: 'annotated',
+			},
+			expect.objectContaining({
+				file: 'src/sum.ts',
+				status: 'skipped',
+			}),
+		]);
+	});
+
+	it('should aggregate the findings files of other jobs', async () => {
+		const dir = await mkdtemp(join(tmpdir(), 'report-annotate-'));
+		testInputs['problem-matchers'] = ['fixtures/tsc-problem-matcher.json'];
+		for (const [job, report] of [
+			['node-20', 'fixtures/tsc-base.txt'],
+			['node-22', 'fixtures/tsc.txt,fixtures/tsc-base.txt'],
+		]) {
+			testInputs.reports = [`tsc|${report}`];
+			testInputs['findings-output'] = join(dir, `${job}.json`);
+			testInputs['job-label'] = job;
+			testInputs.mode = 'export';
+			await main.run();
+		}
+		// The findings are only exported by the jobs.
+		expect(errorMock).not.toHaveBeenCalled();
+		expect(setOutputMock).not.toHaveBeenCalledWith('errors', expect.anything());
+
+		jest.clearAllMocks();
+		testInputs = { aggregate: [`${dir}/*.json`], 'max-annotations': '10' };
+		await main.run();
+		expect(infoMock).toHaveBeenCalledWith(
+			'Aggregated 4 finding(s) from 2 findings file(s).',
+		);
+		expect(warningMock).not.toHaveBeenCalledWith(
+			expect.stringContaining('No reports found'),
+		);
+		expect(errorMock).toHaveBeenCalledWith(
+			"Type 'string' is not assignable to type 'number'. (from node-22)",
+			expect.objectContaining({ file: 'src/app.ts', startLine: 5 }),
+		);
+		expect(errorMock).toHaveBeenCalledWith(
+			"Cannot find name 'foo'. (from node-20, node-22)",
+			expect.objectContaining({ file: 'src/old.ts', startLine: 1 }),
+		);
+		expect(setOutputMock).toHaveBeenCalledWith('errors', 4);
+
+		// The job labels are not part of the findings e.g. in the baseline.
+		const baseline = join(
+			await mkdtemp(join(tmpdir(), 'report-annotate-')),
+			'baseline.json',
+		);
+		testInputs = {
+			'problem-matchers': ['fixtures/tsc-problem-matcher.json'],
+			reports: ['tsc|fixtures/tsc.txt,fixtures/tsc-base.txt'],
+			baseline,
+			'update-baseline': 'true',
+		};
+		await main.run();
+		jest.clearAllMocks();
+		testInputs = { aggregate: [`${dir}/*.json`], baseline };
+		await main.run();
+		expect(infoMock).toHaveBeenCalledWith(
+			`Suppressed 4 annotation(s) found in baseline ${baseline}.`,
+		);
+		expect(errorMock).not.toHaveBeenCalled();
+	});
+
+	it('should keep the jobs of aggregated findings when deduplicating', async () => {
+		const dir = await mkdtemp(join(tmpdir(), 'report-annotate-'));
+		for (const [job, matcher, occurrences] of [
+			['a', 'eslint', 3],
+			['b', 'tsc', 2],
+		]) {
+			await writeFile(
+				join(dir, `${job}.json`),
+				JSON.stringify({
+					version: 1,
+					job,
+					matchers: [matcher],
+					findings: [
+						{
+							level: 'error',
+							message: 'm',
+							file: 'src/app.ts',
+							startLine: 5,
+							matcher,
+							occurrences,
+							status: 'annotated',
+						},
+					],
+				}),
+			);
+		}
+		const findingsFile = join(
+			await mkdtemp(join(tmpdir(), 'report-annotate-')),
+			'findings.json',
+		);
+		testInputs = {
+			aggregate: [`${dir}/*.json`],
+			deduplicate: 'all',
+			'findings-output': findingsFile,
+		};
+		await main.run();
+		expect(errorMock).toHaveBeenCalledTimes(1);
+		expect(errorMock).toHaveBeenCalledWith(
+			'm (from a, b)',
+			expect.objectContaining({ file: 'src/app.ts', startLine: 5 }),
+		);
+		const output = JSON.parse(await readFile(findingsFile, 'utf8'));
+		expect(output.findings).toEqual([
+			expect.objectContaining({ message: 'm', occurrences: 5 }),
+		]);
+	});
+
+	it('should validate the findings of untrusted findings files', async () => {
+		const findingsFile = join(
+			await mkdtemp(join(tmpdir(), 'report-annotate-')),
+			'findings.json',
+		);
+		const writeFinding = (finding: object) =>
+			writeFile(
+				findingsFile,
+				JSON.stringify({
+					version: 1,
+					job: 'fork',
+					matchers: ['tsc'],
+					findings: [
+						{ level: 'error', message: 'm', status: 'annotated', ...finding },
+					],
+				}),
+			);
+		testInputs = { aggregate: [findingsFile] };
+		await writeFinding({ level: 'fatal' });
+		await expect(main.run()).rejects.toThrow(
+			`Invalid finding level 'fatal' in ${findingsFile}, expected one of error, warning, notice.`,
+		);
+		await writeFinding({ status: 'hidden' });
+		await expect(main.run()).rejects.toThrow(
+			`Invalid finding status 'hidden' in ${findingsFile}, expected one of annotated,`,
+		);
+
+		// The unresolved location can't break out of the code element.
+		(github.context as MutableContext).payload = {
+			pull_request: { number: 123, head: { sha: 'abc123' } },
+		};
+		mockOctokit.rest.pulls.listFiles.mockResolvedValue({ data: [] });
+		mockOctokit.rest.issues.listComments.mockResolvedValue({ data: [] });
+		mockOctokit.rest.issues.createComment.mockResolvedValue({});
+		await writeFinding({ unresolvedLocation: 'a.ts` @org/team <b>' });
+		await main.run();
+		const { body } = mockOctokit.rest.issues.createComment.mock.calls[0][0];
+		expect(body).toContain('- <code>a.ts&#96; @org/team &lt;b&gt;</code> m');
+	});
+
+	it('should publish collected findings on their pull request', async () => {
+		const findingsFile = join(
+			await mkdtemp(join(tmpdir(), 'report-annotate-')),
+			'findings.json',
+		);
+		(github.context as MutableContext).payload = {
+			pull_request: { number: 7, head: { sha: 'abc123' } },
+		};
+		testInputs['problem-matchers'] = ['fixtures/tsc-problem-matcher.json'];
+		testInputs.reports = ['tsc|fixtures/tsc.txt'];
+		testInputs.mode = 'export';
+		testInputs['findings-output'] = findingsFile;
+		await main.run();
+		expect(
+			JSON.parse(await readFile(findingsFile, 'utf8')).pullRequest,
+		).toEqual({ number: 7, headSha: 'abc123' });
+
+		// A workflow_run workflow has no pull request in its payload.
+		jest.clearAllMocks();
+		(github.context as MutableContext).payload = {
+			workflow_run: { head_sha: 'abc123', head_repository: { id: 2 } },
+		};
+		testInputs = { mode: 'publish', aggregate: [findingsFile] };
+		mockOctokit.rest.pulls.get.mockResolvedValue({
+			data: { head: { sha: 'abc123', repo: { id: 2 } } },
+		});
+		mockOctokit.rest.pulls.listFiles.mockResolvedValue({
+			data: [{ filename: 'src/app.ts' }],
+		});
+		mockOctokit.rest.issues.listComments.mockResolvedValue({ data: [] });
+		mockOctokit.rest.issues.createComment.mockResolvedValue({});
+		await main.run();
+		expect(infoMock).toHaveBeenCalledWith(
+			'Publishing the findings of PR #7 at abc123.',
+		);
+		expect(mockOctokit.rest.issues.createComment).toHaveBeenCalledWith(
+			expect.objectContaining({ issue_number: 7 }),
+		);
+		const { body } = mockOctokit.rest.issues.createComment.mock.calls[0][0];
+		expect(body).toContain(
+			'https://github.com/test-owner/test-repo/blob/abc123/src/sum.ts#L12',
+		);
+
+		// The findings must be of the head of the triggering workflow run.
+		(github.context as MutableContext).payload = {
+			workflow_run: { head_sha: 'def456' },
+		};
+		await expect(main.run()).rejects.toThrow(
+			'The findings of abc123 do not match the head def456 of the workflow run.',
+		);
+
+		// The pull request number is looked up, as the fork writes it.
+		(github.context as MutableContext).payload = {
+			workflow_run: { head_sha: 'abc123', head_repository: { id: 3 } },
+		};
+		await expect(main.run()).rejects.toThrow(
+			'The head of PR #7 does not match the head abc123 of the workflow run.',
+		);
+		expect(mockOctokit.rest.pulls.get).toHaveBeenCalledWith({
+			owner: 'test-owner',
+			repo: 'test-repo',
+			pull_number: 7,
+		});
+
+		// Only a workflow_run workflow can publish findings.
+		(github.context as MutableContext).payload = {};
+		await expect(main.run()).rejects.toThrow(
+			'Findings can only be published from a workflow_run workflow.',
+		);
+	});
+
+	describe('baseline', () => {
+		let baselineFile: string;
+
+		beforeEach(async () => {
+			baselineFile = join(
+				await mkdtemp(join(tmpdir(), 'report-annotate-')),
+				'baseline.json',
+			);
+			testInputs['problem-matchers'] = ['fixtures/tsc-problem-matcher.json'];
+			testInputs.reports = ['tsc|fixtures/tsc.txt'];
+			testInputs.baseline = baselineFile;
+		});
+
+		it('should write the annotations to the baseline file', async () => {
+			testInputs['update-baseline'] = 'true';
+			await main.run();
+			const baseline = JSON.parse(await readFile(baselineFile, 'utf8'));
+			expect(baseline).toEqual({
+				version: 1,
+				findings: [
+					{
+						fingerprint: expect.stringMatching(/^[0-9a-f]{16}$/),
+						file: 'src/app.ts',
+						title: '2322',
+						message: "Type 'string' is not assignable to type 'number'.",
+						count: 1,
+					},
+					{
+						fingerprint: expect.stringMatching(/^[0-9a-f]{16}$/),
+						file: 'src/sum.ts',
+						title: '2554',
+						// Numbers are normalized.
+						message: 'Expected # arguments, but got #.',
+						count: 1,
+					},
+				],
+			});
+			expect(infoMock).toHaveBeenCalledWith(
+				`Wrote 2 finding(s) of 2 annotation(s) to baseline ${baselineFile}.`,
+			);
+			// Nothing is annotated when updating the baseline.
+			expect(errorMock).not.toHaveBeenCalled();
+			expect(setOutputMock).not.toHaveBeenCalled();
+		});
+
+		it('should suppress baseline findings and report fixed ones', async () => {
+			const fingerprint = createHash('sha256')
+				.update(
+					"src/app.ts\u00002322\u0000Type 'string' is not assignable to type 'number'.",
+				)
+				.digest('hex')
+				.slice(0, 16);
+			await writeFile(
+				baselineFile,
+				JSON.stringify({
+					version: 1,
+					findings: [
+						{
+							fingerprint,
+							file: 'src/app.ts',
+							title: '2322',
+							message: "Type 'string' is not assignable to type 'number'.",
+							count: 1,
+						},
+						{
+							fingerprint: '0123456789abcdef',
+							file: 'src/old.ts',
+							title: '2304',
+							message: "Cannot find name 'foo'.",
+							count: 1,
+						},
+					],
+				}),
+			);
+			await main.run();
+			expect(errorMock).not.toHaveBeenCalledWith(
+				"Type 'string' is not assignable to type 'number'.",
+				expect.anything(),
+			);
+			expect(errorMock).toHaveBeenCalledWith(
+				'Expected 2 arguments, but got 1.',
+				expect.objectContaining({ file: 'src/sum.ts' }),
+			);
+			expect(infoMock).toHaveBeenCalledWith(
+				`Suppressed 1 annotation(s) found in baseline ${baselineFile}.`,
+			);
+			expect(warningMock).toHaveBeenCalledWith(
+				`1 baseline finding(s) no longer occur, update baseline ${baselineFile} to remove them.`,
+			);
+			expect(infoMock).toHaveBeenCalledWith(
+				"Fixed: src/old.ts: 2304: Cannot find name 'foo'.",
+			);
+			expect(setOutputMock).toHaveBeenCalledWith('errors', 1);
+		});
+
+		it('should fail on an unsupported baseline file', async () => {
+			await writeFile(baselineFile, '{"findings": {}}');
+			await expect(main.run()).rejects.toThrow(
+				'Unsupported baseline format, expected version 1',
+			);
+		});
+
+		it('should warn when the baseline file does not exist', async () => {
+			await main.run();
+			expect(warningMock).toHaveBeenCalledWith(
+				`Baseline ${baselineFile} not found, no annotations are suppressed.`,
+			);
+			expect(setOutputMock).toHaveBeenCalledWith('errors', 2);
+		});
+	});
+
 	describe('truncateFilePath', () => {
 		it('should return short paths unchanged', () => {
 			expect(main.truncateFilePath('src/file.ts')).toBe('src/file.ts');
@@ -964,6 +2558,43 @@ at Tests.Registration.main(Registration.java:202)`,
 		});
 	});
 
+	describe('parsePatch', () => {
+		it('should return no hunks or changed lines without a patch', () => {
+			expect(main.parsePatch(undefined)).toEqual({ hunks: [] });
+		});
+
+		it('should parse new file line ranges of each hunk and changed lines', () => {
+			const patch = [
+				'@@ -1,3 +1,6 @@',
+				' a',
+				'+b',
+				'+c',
+				' d',
+				'-e',
+				'+f',
+				' g',
+				'@@ -20 +21 @@ function x() {',
+				'-h',
+				'+i',
+				'\\ No newline at end of file',
+				'@@ -30,2 +30,0 @@',
+				'-j',
+				'-k',
+			].join('\n');
+			expect(main.parsePatch(patch)).toEqual({
+				hunks: [
+					{ start: 1, end: 6 },
+					{ start: 21, end: 21 },
+				],
+				lines: [
+					{ start: 2, end: 3 },
+					{ start: 5, end: 5 },
+					{ start: 21, end: 21 },
+				],
+			});
+		});
+	});
+
 	describe('getDiffId', () => {
 		it('should generate SHA256 hash for file path', () => {
 			expect(main.getDiffId('src/index.js')).toBe(
@@ -1244,6 +2875,52 @@ at Tests.Registration.main(Registration.java:202)`,
 		expect(mockOctokit.rest.issues.createComment).not.toHaveBeenCalled();
 	});
 
+	it('should validate annotation locations against the workspace', async () => {
+		process.env.GITHUB_WORKSPACE = process.cwd();
+		(github.context as MutableContext).payload = {
+			pull_request: { number: 123, head: { sha: 'abc123' } },
+		};
+		testInputs['problem-matchers'] = ['fixtures/tsc-problem-matcher.json'];
+		testInputs.reports = ['tsc|fixtures/tsc-locations.txt'];
+		testInputs['always-comment-errors'] = 'false';
+		testInputs['validate-locations'] = 'true';
+		mockOctokit.rest.pulls.listFiles.mockResolvedValue({
+			data: [{ filename: 'fixtures/tsc.txt' }],
+		});
+		mockOctokit.rest.issues.listComments.mockResolvedValue({ data: [] });
+		mockOctokit.rest.issues.createComment.mockResolvedValue({});
+		await main.run();
+		expect(infoMock).toHaveBeenCalledWith(
+			'Clamped 2 annotation location(s) to the source files, 1 could not be resolved.',
+		);
+		expect(errorMock).toHaveBeenCalledWith(
+			'Line past the end of the file.',
+			expect.objectContaining({
+				file: 'fixtures/tsc.txt',
+				startLine: 3,
+				startColumn: undefined,
+			}),
+		);
+		expect(errorMock).toHaveBeenCalledWith(
+			'Column past the end of the line.',
+			expect.objectContaining({
+				file: 'fixtures/tsc.txt',
+				startLine: 1,
+				startColumn: undefined,
+			}),
+		);
+		expect(errorMock).not.toHaveBeenCalledWith(
+			'File missing from the workspace.',
+			expect.anything(),
+		);
+		const { body } = mockOctokit.rest.issues.createComment.mock.calls[0][0];
+		expect(body).toContain('### Unresolved Locations');
+		expect(body).toContain(
+			'- <code>node_modules/missing/index.js:12</code> File missing from the workspace.',
+		);
+		expect(setOutputMock).toHaveBeenCalledWith('errors', 2);
+	});
+
 	it('should include out-of-diff annotations in PR comment', async () => {
 		// Mock GitHub context to be on a PR
 		(github.context as MutableContext).payload = {
@@ -1277,6 +2954,86 @@ at Tests.Registration.main(Registration.java:202)`,
 		expect(setOutputMock).toHaveBeenCalledWith('total', 0);
 	});
 
+	it('should annotate, comment or drop annotations by diff scope', async () => {
+		(github.context as MutableContext).payload = {
+			pull_request: { number: 123, head: { sha: 'abc123' } },
+		};
+		testInputs['problem-matchers'] = ['fixtures/tsc-problem-matcher.json'];
+		testInputs['custom-matchers'] = JSON.stringify({
+			lines: {
+				format: 'text',
+				item: '^(?<file>[^:]+):(?<line>\\d+): warning: (?<message>.*)$',
+				level: { warning: 'message' },
+				message: 'message',
+				file: 'file',
+				startLine: 'line',
+			},
+		});
+		testInputs.reports = [
+			'tsc|fixtures/tsc.txt',
+			'lines|fixtures/many-warnings.txt',
+		];
+		testInputs['unchanged-lines'] = 'drop';
+		// Line 5 of src/app.ts is changed, src/sum.ts is outside the diff.
+		mockOctokit.rest.pulls.listFiles.mockResolvedValue({
+			data: [{ filename: 'src/app.ts', patch: '@@ -4,2 +4,2 @@\n a\n-b\n+c' }],
+		});
+		mockOctokit.rest.issues.listComments.mockResolvedValue({ data: [] });
+		mockOctokit.rest.issues.createComment.mockResolvedValue({});
+		await main.run();
+		expect(errorMock).toHaveBeenCalledWith(
+			"Type 'string' is not assignable to type 'number'.",
+			expect.objectContaining({ file: 'src/app.ts', startLine: 5 }),
+		);
+		expect(warningMock).toHaveBeenCalledWith(
+			'Line 5 is too long',
+			expect.objectContaining({ file: 'src/app.ts', startLine: 5 }),
+		);
+		expect(warningMock).not.toHaveBeenCalledWith(
+			'Line 6 is too long',
+			expect.anything(),
+		);
+		expect(infoMock).toHaveBeenCalledWith(
+			'59 annotation(s) target unchanged lines in the PR diff.',
+		);
+		expect(infoMock).toHaveBeenCalledWith('Dropped 59 annotation(s).');
+		const { body } = mockOctokit.rest.issues.createComment.mock.calls[0][0];
+		expect(body).toContain('**Summary:** Found ❌ 2 errors, ⚠️ 1 warning.');
+		expect(body).toContain('### Annotations Outside PR Diff');
+		expect(body).toContain('Expected 2 arguments, but got 1.');
+		expect(body).not.toContain('Line 6 is too long');
+		expect(setOutputMock).toHaveBeenCalledWith('total', 2);
+	});
+
+	it('should comment annotations on unchanged lines', async () => {
+		(github.context as MutableContext).payload = {
+			pull_request: { number: 123, head: { sha: 'abc123' } },
+		};
+		testInputs['problem-matchers'] = ['fixtures/tsc-problem-matcher.json'];
+		testInputs.reports = ['tsc|fixtures/tsc.txt'];
+		testInputs['always-comment-errors'] = 'false';
+		testInputs['changed-lines'] = 'drop';
+		testInputs['unchanged-lines'] = 'comment';
+		mockOctokit.rest.pulls.listFiles.mockResolvedValue({
+			data: [
+				{ filename: 'src/app.ts', patch: '@@ -1 +1 @@\n-a\n+b' },
+				{ filename: 'src/sum.ts', patch: '@@ -12 +12 @@\n-a\n+b' },
+			],
+		});
+		mockOctokit.rest.issues.listComments.mockResolvedValue({ data: [] });
+		mockOctokit.rest.issues.createComment.mockResolvedValue({});
+		await main.run();
+		expect(errorMock).not.toHaveBeenCalled();
+		const { body } = mockOctokit.rest.issues.createComment.mock.calls[0][0];
+		expect(body).toContain('**Summary:** Found ❌ 1 error.');
+		expect(body).toContain('### Annotations on Unchanged Lines');
+		expect(body).toContain(
+			'https://github.com/test-owner/test-repo/blob/abc123/src/app.ts#L5',
+		);
+		expect(body).not.toContain('Expected 2 arguments, but got 1.');
+		expect(setOutputMock).toHaveBeenCalledWith('total', 0);
+	});
+
 	it('should not duplicate out-of-diff errors in the main error section', async () => {
 		(github.context as MutableContext).payload = {
 			pull_request: { number: 123, head: { sha: 'abc123' } },
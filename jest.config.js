@@ -23,6 +23,11 @@ export default {
 	moduleNameMapper: {
 		'^\\./matchers/(.*)\\.js$': '<rootDir>/src/matchers/$1',
 		'^\\./xpath-utils\\.js$': '<rootDir>/src/xpath-utils',
+		'^\\./jsonpath-utils\\.js$': '<rootDir>/src/jsonpath-utils',
+		'^\\./text-utils\\.js$': '<rootDir>/src/text-utils',
+		'^\\./baseline-utils\\.js$': '<rootDir>/src/baseline-utils',
+		'^\\./sarif-utils\\.js$': '<rootDir>/src/sarif-utils',
+		'^\\./path-utils\\.js$': '<rootDir>/src/path-utils',
 	},
 	moduleFileExtensions: ['ts', 'js'],
 	preset: 'ts-jest',
@@ -0,0 +1,116 @@
+import { createHash } from 'node:crypto';
+import { type PendingAnnotation } from './main.js';
+
+/** A known finding in the baseline, `count` being the number of occurrences. */
+export interface BaselineFinding {
+	fingerprint: string;
+	file?: string;
+	title?: string;
+	message: string;
+	count: number;
+}
+
+/** A baseline file of known, pre-existing findings to suppress. */
+export interface Baseline {
+	version: 1;
+	findings: BaselineFinding[];
+}
+
+/**
+ * Normalize a message for fingerprinting: numbers are replaced as messages
+ * often include line numbers or counts e.g. "defined on line 12".
+ */
+export function normalizeMessage(message: string): string {
+	return message.replace(/\d+/g, '#').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Fingerprint an annotation on its file, title & normalized message. The line
+ * is not included, so the fingerprint is tolerant to code moving around.
+ */
+export function fingerprint(annotation: PendingAnnotation): string {
+	return createHash('sha256')
+		.update(
+			[
+				annotation.properties.file ?? '',
+				annotation.properties.title ?? '',
+				normalizeMessage(annotation.message),
+			].join('\0'),
+		)
+		.digest('hex')
+		.slice(0, 16);
+}
+
+/** Create a baseline of the annotations, sorted for stable diffs. */
+export function createBaseline(annotations: PendingAnnotation[]): Baseline {
+	const findings = new Map<string, BaselineFinding>();
+	for (const annotation of annotations) {
+		const key = fingerprint(annotation);
+		const finding = findings.get(key);
+		if (finding) {
+			finding.count++;
+			continue;
+		}
+		findings.set(key, {
+			fingerprint: key,
+			file: annotation.properties.file,
+			title: annotation.properties.title,
+			message: normalizeMessage(annotation.message),
+			count: 1,
+		});
+	}
+	return {
+		version: 1,
+		findings: [...findings.values()].sort(
+			(a, b) =>
+				(a.file ?? '').localeCompare(b.file ?? '') ||
+				a.fingerprint.localeCompare(b.fingerprint),
+		),
+	};
+}
+
+/** Parse a baseline file, validating its structure. */
+export function parseBaseline(content: string): Baseline {
+	const baseline = JSON.parse(content) as Baseline;
+	if (baseline?.version !== 1 || !Array.isArray(baseline.findings)) {
+		throw new Error('Unsupported baseline format, expected version 1');
+	}
+	return baseline;
+}
+
+/**
+ * Separate the annotations found in the baseline. Each baseline finding
+ * suppresses up to `count` matching annotations; findings left over are fixed
+ * and can be removed from the baseline.
+ */
+export function applyBaseline(
+	annotations: PendingAnnotation[],
+	baseline: Baseline,
+): {
+	annotations: PendingAnnotation[];
+	suppressed: PendingAnnotation[];
+	fixed: BaselineFinding[];
+} {
+	const remaining = new Map(
+		baseline.findings.map(finding => [finding.fingerprint, finding.count]),
+	);
+	const kept: PendingAnnotation[] = [];
+	const suppressed: PendingAnnotation[] = [];
+	for (const annotation of annotations) {
+		const key = fingerprint(annotation);
+		const count = remaining.get(key) ?? 0;
+		if (count === 0) {
+			kept.push(annotation);
+			continue;
+		}
+		remaining.set(key, count - 1);
+		suppressed.push(annotation);
+	}
+	return {
+		annotations: kept,
+		suppressed,
+		fixed: baseline.findings.filter(
+			finding => (remaining.get(finding.fingerprint) ?? 0) > 0,
+		),
+	};
+}
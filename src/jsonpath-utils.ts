@@ -0,0 +1,424 @@
+/**
+ * A small JSONPath-style expression language used by `json` report matchers.
+ *
+ * Paths:
+ * - `$` the document root, `@` the current item, `^` the parent object of the
+ *   current item (arrays are skipped, so `^` of an array element is the object
+ *   holding the array).
+ * - `.name`, `['name']`, `[0]`, `[*]`, `.*` and `..name` (recursive descent).
+ * - Paths without a leading `$`, `@` or `^` are relative to the current item,
+ *   e.g. `location.line` is the same as `@.location.line`.
+ *
+ * Literals: `'single'` or `"double"` quoted strings (without escapes, like
+ * xpath) and numbers.
+ *
+ * Functions: `replace`, `match`, `if` and `normalize` behave like their xpath
+ * counterparts in `xpath-utils.ts`, plus `concat`, `contains`, `eq`, `not`,
+ * `and`, `or`, `true` and `false` which replace the xpath operators. `find`,
+ * `get` and `decode` help joining data from elsewhere in the document, and a
+ * path may continue after a function e.g. `find(^.rules[*], 'id', ruleId).name`.
+ */
+
+/** A value selected from a JSON document, keeping track of where it lives. */
+export interface JsonNode {
+	value: unknown;
+	parent?: JsonNode;
+}
+
+/** The result of evaluating an expression. */
+type JsonValue = JsonNode[] | string | number | boolean;
+
+type Token =
+	| { type: 'punct'; value: string }
+	| { type: 'name'; value: string }
+	| { type: 'string'; value: string }
+	| { type: 'number'; value: number };
+
+type Segment =
+	| { type: 'child'; name: string | number | '*' }
+	| { type: 'descendant'; name: string | '*' }
+	| { type: 'parent' };
+
+type Expression =
+	| { type: 'literal'; value: string | number }
+	| { type: 'path'; start: '$' | '@' | Expression; segments: Segment[] }
+	| { type: 'call'; name: string; args: Expression[] };
+
+/** Split the expression into tokens. */
+function tokenize(expression: string): Token[] {
+	const tokens: Token[] = [];
+	let i = 0;
+	while (i < expression.length) {
+		const char = expression[i];
+		if (/\s/.test(char)) {
+			i++;
+		} else if (expression.startsWith('..', i)) {
+			tokens.push({ type: 'punct', value: '..' });
+			i += 2;
+		} else if ('$@^.[]*(),'.includes(char)) {
+			tokens.push({ type: 'punct', value: char });
+			i++;
+		} else if (char === '"' || char === "'") {
+			// Like xpath there are no escapes, use the other quote type instead.
+			const end = expression.indexOf(char, i + 1);
+			if (end === -1) throw new Error('Unterminated string');
+			tokens.push({ type: 'string', value: expression.slice(i + 1, end) });
+			i = end + 1;
+		} else if (/[-\d]/.test(char)) {
+			const [number] = expression.slice(i).match(/^-?\d+(\.\d+)?/) ?? [];
+			if (!number) throw new Error(`Unexpected character ${char}`);
+			tokens.push({ type: 'number', value: Number(number) });
+			i += number.length;
+		} else if (/[A-Za-z_]/.test(char)) {
+			const [name] = expression.slice(i).match(/^[A-Za-z_][\w-]*/)!;
+			tokens.push({ type: 'name', value: name });
+			i += name.length;
+		} else {
+			throw new Error(`Unexpected character ${char}`);
+		}
+	}
+	return tokens;
+}
+
+/** Recursive descent parser turning tokens into an expression tree. */
+class Parser {
+	private position = 0;
+
+	constructor(private readonly tokens: Token[]) {}
+
+	parse(): Expression {
+		const expression = this.expression();
+		const next = this.peek();
+		if (next) throw new Error(`Unexpected token ${next.value}`);
+		return expression;
+	}
+
+	private peek(offset = 0): Token | undefined {
+		return this.tokens[this.position + offset];
+	}
+
+	private next(): Token {
+		const token = this.tokens[this.position++];
+		if (!token) throw new Error('Unexpected end of expression');
+		return token;
+	}
+
+	private isPunct(value: string, offset = 0): boolean {
+		const token = this.peek(offset);
+		return token?.type === 'punct' && token.value === value;
+	}
+
+	private expect(value: string): void {
+		const token = this.next();
+		if (token.type !== 'punct' || token.value !== value) {
+			throw new Error(`Expected ${value} but found ${token.value}`);
+		}
+	}
+
+	private expression(): Expression {
+		const token = this.peek();
+		if (!token) throw new Error('Unexpected end of expression');
+		if (token.type === 'string' || token.type === 'number') {
+			this.position++;
+			return { type: 'literal', value: token.value };
+		}
+		if (token.type === 'name' && this.isPunct('(', 1)) {
+			// Allow selecting from the result of a function e.g. `find(...).name`.
+			const call = this.call();
+			const segments = this.segments();
+			return segments.length ? { type: 'path', start: call, segments } : call;
+		}
+		return this.path();
+	}
+
+	private call(): Expression {
+		const name = this.next().value as string;
+		this.expect('(');
+		const args: Expression[] = [];
+		while (!this.isPunct(')')) {
+			args.push(this.expression());
+			if (!this.isPunct(')')) this.expect(',');
+		}
+		this.expect(')');
+		return { type: 'call', name, args };
+	}
+
+	private path(): Expression {
+		const segments: Segment[] = [];
+		let start: '$' | '@' = '@';
+		const token = this.peek()!;
+		if (token.type === 'punct' && '$@'.includes(token.value)) {
+			start = token.value as '$' | '@';
+			this.position++;
+		} else if (token.type === 'punct' && token.value === '^') {
+			this.position++;
+			segments.push({ type: 'parent' });
+		} else if (token.type === 'name') {
+			this.position++;
+			segments.push({ type: 'child', name: token.value });
+		} else if (!this.isPunct('[')) {
+			throw new Error(`Unexpected token ${token.value}`);
+		}
+		segments.push(...this.segments());
+		return { type: 'path', start, segments };
+	}
+
+	private segments(): Segment[] {
+		const segments: Segment[] = [];
+		while (this.isPunct('.') || this.isPunct('..') || this.isPunct('[')) {
+			const punct = this.next().value;
+			if (punct === '[') {
+				const key = this.next();
+				if (key.type === 'punct' && key.value !== '*') {
+					throw new Error(`Unexpected token ${key.value}`);
+				}
+				this.expect(']');
+				segments.push({ type: 'child', name: key.value as string | number });
+				continue;
+			}
+			const key = this.next();
+			if (punct === '.' && key.type === 'punct' && key.value === '^') {
+				segments.push({ type: 'parent' });
+			} else if (
+				key.type === 'name' ||
+				(key.type === 'punct' && key.value === '*')
+			) {
+				segments.push({
+					type: punct === '.' ? 'child' : 'descendant',
+					name: key.value,
+				});
+			} else {
+				throw new Error(`Unexpected token ${key.value}`);
+			}
+		}
+		return segments;
+	}
+}
+
+/** Get the direct children of a node, optionally filtered by key. */
+function children(node: JsonNode, name: string | number | '*'): JsonNode[] {
+	const { value } = node;
+	if (Array.isArray(value)) {
+		if (name === '*') return value.map(item => ({ value: item, parent: node }));
+		if (typeof name !== 'number' || !(name in value)) return [];
+		return [{ value: value[name], parent: node }];
+	}
+	if (typeof value !== 'object' || value === null) return [];
+	if (name === '*') {
+		return Object.values(value).map(item => ({ value: item, parent: node }));
+	}
+	if (!Object.hasOwn(value, name)) return [];
+	return [{ value: (value as Record<string, unknown>)[name], parent: node }];
+}
+
+/** Get all descendants of a node matching the key, in document order. */
+function descendants(node: JsonNode, name: string | '*'): JsonNode[] {
+	const { value } = node;
+	if (typeof value !== 'object' || value === null) return [];
+	const result: JsonNode[] = [];
+	for (const [key, item] of Object.entries(value)) {
+		const child = { value: item, parent: node };
+		// Only object properties can match by name.
+		if (name === '*' || (!Array.isArray(value) && key === name)) {
+			result.push(child);
+		}
+		result.push(...descendants(child, name));
+	}
+	return result;
+}
+
+/** Find the closest ancestor object of a node, skipping over arrays. */
+function parentObject(node: JsonNode): JsonNode | undefined {
+	let parent = node.parent;
+	while (parent && Array.isArray(parent.value)) parent = parent.parent;
+	return parent;
+}
+
+/** Find the document root of a node. */
+function root(node: JsonNode): JsonNode {
+	let current = node;
+	while (current.parent) current = current.parent;
+	return current;
+}
+
+/** Convert a value to a string, using the first node of a node-set. */
+function toString(value: JsonValue): string {
+	if (!Array.isArray(value)) return `${value}`;
+	const first = value[0]?.value;
+	if (first === undefined || first === null) return '';
+	if (typeof first === 'object') return JSON.stringify(first);
+	return `${first}`;
+}
+
+/** Convert a value to a number, `NaN` if it is not numeric. */
+function toNumber(value: JsonValue): number {
+	if (typeof value === 'number') return value;
+	const string = toString(value).trim();
+	return string === '' ? NaN : Number(string);
+}
+
+/** Convert a value to a boolean, a node-set is true if any node is truthy. */
+function toBoolean(value: JsonValue): boolean {
+	if (!Array.isArray(value)) return Boolean(value);
+	return value.some(({ value }) =>
+		Array.isArray(value) ? value.length > 0 : Boolean(value),
+	);
+}
+
+/** Functions available in JSON path expressions. */
+const functions: Record<string, (...args: JsonValue[]) => JsonValue> = {
+	/** Replace the first occurrence of a pattern with another string. */
+	replace(input, search, replace) {
+		return toString(input).replace(
+			new RegExp(toString(search)),
+			toString(replace),
+		);
+	},
+	/** Match a string against a regular expression and return the first group or empty string. */
+	match(input, pattern) {
+		return toString(input).match(new RegExp(toString(pattern)))?.[1] ?? '';
+	},
+	/** Return based on boolean condition */
+	if(condition, then, otherwise) {
+		return toBoolean(condition) ? then : otherwise;
+	},
+	/** Trim & collapse whitespace from the input string, except newlines. */
+	normalize(input) {
+		return toString(input).replaceAll(/^\s+|\s+$/gm, '');
+	},
+	/** Concatenate all arguments into a single string. */
+	concat(...args) {
+		return args.map(toString).join('');
+	},
+	/** Check if the first string contains the second. */
+	contains(input, search) {
+		return toString(input).includes(toString(search));
+	},
+	/** Check if both values are equal when compared as strings. */
+	eq(a, b) {
+		return toString(a) === toString(b);
+	},
+	/** Negate a boolean value. */
+	not(input) {
+		return !toBoolean(input);
+	},
+	/** True if all arguments are true. */
+	and(...args) {
+		return args.every(toBoolean);
+	},
+	/** True if any argument is true. */
+	or(...args) {
+		return args.some(toBoolean);
+	},
+	/** Always true. */
+	true() {
+		return true;
+	},
+	/** Always false. */
+	false() {
+		return false;
+	},
+	/** Select the nodes whose `key` property equals the value e.g. rules by id. */
+	find(nodes, key, value) {
+		if (!Array.isArray(nodes)) return [];
+		return nodes.filter(node =>
+			children(node, toString(key)).some(
+				child => toString([child]) === toString(value),
+			),
+		);
+	},
+	/** Select a property using a computed key e.g. `get(^.baseIds, uriBaseId)`. */
+	get(nodes, key) {
+		if (!Array.isArray(nodes)) return [];
+		return nodes.flatMap(node => children(node, toString(key)));
+	},
+	/** Decode a percent-encoded URI component, returning the input if invalid. */
+	decode(input) {
+		try {
+			return decodeURIComponent(toString(input));
+		} catch {
+			return toString(input);
+		}
+	},
+};
+
+/** Evaluate a parsed expression in the context of a node. */
+function evaluate(expression: Expression, node: JsonNode): JsonValue {
+	switch (expression.type) {
+		case 'literal':
+			return expression.value;
+		case 'call': {
+			const fn = functions[expression.name];
+			if (!fn) throw new Error(`Unknown function ${expression.name}`);
+			return fn(...expression.args.map(arg => evaluate(arg, node)));
+		}
+		case 'path': {
+			const { start } = expression;
+			let nodes: JsonNode[];
+			if (start === '$') nodes = [root(node)];
+			else if (start === '@') nodes = [node];
+			else {
+				const result = evaluate(start, node);
+				nodes = Array.isArray(result) ? result : [];
+			}
+			for (const segment of expression.segments) {
+				nodes = nodes.flatMap(current => {
+					if (segment.type === 'parent') return parentObject(current) ?? [];
+					if (segment.type === 'child') return children(current, segment.name);
+					return descendants(current, segment.name);
+				});
+			}
+			return nodes;
+		}
+	}
+}
+
+/** A parsed expression ready to be evaluated. */
+export interface JsonEvaluator {
+	evaluate: (node: JsonNode) => JsonValue;
+}
+
+/** Parse the expression and return an evaluator. */
+export function parseJsonPath(expression: string): JsonEvaluator {
+	try {
+		const parsed = new Parser(tokenize(expression)).parse();
+		return { evaluate: node => evaluate(parsed, node) };
+	} catch (error) {
+		const msg = error instanceof Error ? error.message : 'Unknown error';
+		throw new Error(
+			`Error parsing JSON path expression "${expression}": ${msg}`,
+			{ cause: error },
+		);
+	}
+}
+
+/** Select all nodes matching the path expression from the document. */
+export function selectJson(expression: string, document: unknown): JsonNode[] {
+	const result = parseJsonPath(expression).evaluate({ value: document });
+	if (!Array.isArray(result)) {
+		throw new Error(
+			`JSON path expression "${expression}" did not select any nodes`,
+		);
+	}
+	// An array selected as a whole is treated as a list of items.
+	if (result.length === 1 && Array.isArray(result[0].value)) {
+		return children(result[0], '*');
+	}
+	return result;
+}
+
+/** Utility to select values from a JsonNode with extra functions like `replace`. */
+export const jsonSelect = (node: JsonNode) => ({
+	/** Evaluate the expression and return the result as a string. */
+	string(expression: string): string {
+		return toString(parseJsonPath(expression).evaluate(node));
+	},
+	/** Evaluate the expression and return the result as a number. */
+	number(expression: string): number {
+		return toNumber(parseJsonPath(expression).evaluate(node));
+	},
+	/** Evaluate the expression and return the result as a boolean. */
+	boolean(expression: string): boolean {
+		return toBoolean(parseJsonPath(expression).evaluate(node));
+	},
+});
@@ -1,10 +1,12 @@
 import * as core from '@actions/core';
 import * as github from '@actions/github';
 import { existsSync } from 'node:fs';
-import { readFile } from 'node:fs/promises';
+import { readFile, stat, writeFile } from 'node:fs/promises';
+import { isAbsolute, join, relative } from 'node:path';
 import { createHash } from 'node:crypto';
 import { parse } from 'yaml';
 import { glob } from 'glob';
+import { minimatch } from 'minimatch';
 import { junitEslintMatcher } from './matchers/junit-eslint.js';
 import { DOMParser } from '@xmldom/xmldom';
 import {
@@ -15,6 +17,24 @@ import {
 } from './xpath-utils.js';
 import { junitMatcher } from './matchers/junit.js';
 import { junitJestMatcher } from './matchers/junit-jest.js';
+import { jsonSelect, selectJson } from './jsonpath-utils.js';
+import { sarifMatcher } from './matchers/sarif.js';
+import { checkstyleMatcher } from './matchers/checkstyle.js';
+import { eslintJsonMatcher } from './matchers/eslint-json.js';
+import {
+	fromProblemMatcher,
+	matchTextItems,
+	textSelect,
+	type ProblemMatcher,
+} from './text-utils.js';
+import {
+	applyBaseline,
+	createBaseline,
+	fingerprint as baselineFingerprint,
+	parseBaseline,
+} from './baseline-utils.js';
+import { createSarifLog } from './sarif-utils.js';
+import { mapPath, type PathMapping, type PathOptions } from './path-utils.js';
 
 const DEFAULT_CONFIG_PATH = '.github/report-annotate.yml';
 const DEFAULT_CONFIG: Partial<Config> = {
@@ -24,9 +44,62 @@ const DEFAULT_CONFIG: Partial<Config> = {
 	customMatchers: {},
 	alwaysCommentErrors: true,
 	commentMethod: 'minimize',
+	problemMatchers: [],
+	checkRun: 'none',
+	checkName: 'Report Annotate',
+	baseReports: [],
+	changedLines: 'annotate',
+	unchangedLines: 'annotate',
+	outsideDiff: 'comment',
+	baseline: '',
+	updateBaseline: false,
+	jobSummary: false,
+	testResults: false,
+	slowTestThreshold: 0,
+	maxSlowTests: 10,
+	sarifOutput: '',
+	findingsOutput: '',
+	failOn: 'never',
+	maxErrors: undefined,
+	maxWarnings: undefined,
+	failScope: 'all',
+	commentKey: '',
+	showCommentKey: false,
+	overrides: [],
+	pathMappings: [],
+	normalizePathSeparators: true,
+	validateLocations: false,
+	deduplicate: 'none',
+	aggregate: [],
+	jobLabel: '',
+	mode: 'report',
 };
 
-export type CommentMethod = 'minimize' | 'update';
+export type CommentMethod = 'minimize' | 'update' | 'review';
+
+export type CheckRunMode = 'none' | 'single' | 'per-matcher';
+
+/** The lowest annotation level that fails the step. */
+export type FailOn = 'error' | 'warning' | 'notice' | 'never';
+
+/** Which annotations the fail thresholds are evaluated against. */
+export type FailScope = 'all' | 'changed-files' | 'changed-lines';
+
+/**
+ * Whether to 'report' the findings as annotations & comments, only 'export'
+ * them to the findings output for another job to aggregate, or 'publish' the
+ * aggregated findings on the pull request they were exported on.
+ */
+export type Mode = 'report' | 'export' | 'publish';
+
+/** Which identical annotations to merge: 'none', from the same 'matcher' or 'all'. */
+export type Deduplicate = 'none' | 'matcher' | 'all';
+
+/** How to handle annotations depending on where they are in the PR diff. */
+export type DiffHandling = 'annotate' | 'comment' | 'drop';
+
+/** Where an annotation is in the PR diff. */
+type DiffScope = 'changedLines' | 'unchangedLines' | 'outsideDiff';
 
 export interface Config {
 	/**
@@ -34,6 +107,13 @@ export interface Config {
 	 * @example `['junit-eslint|junit/lint*.xml']`
 	 */
 	reports: string[];
+	/**
+	 * List of globs to search for reports of the base branch, in the same
+	 * format as `reports`. Annotations also found in the base reports are
+	 * pre-existing and only listed in the PR comment.
+	 * @example `['junit-eslint|base/junit/lint*.xml']`
+	 */
+	baseReports: string[];
 	/** List of globs to ignore when searching for reports. */
 	ignore: string[];
 	/** Maximum number of annotations per type (error/warning/notice). */
@@ -42,26 +122,180 @@ export interface Config {
 	customMatchers: Record<string, ReportMatcher>;
 	/** When true, all errors are always included in the PR comment body. */
 	alwaysCommentErrors: boolean;
-	/** How to handle previous bot comments: 'minimize' hides them, 'update' edits the last one in-place. */
+	/**
+	 * How to handle previous bot comments: 'minimize' hides them, 'update' edits the last one in-place.
+	 * 'review' posts findings on changed lines as a PR review and updates a comment for the rest.
+	 */
 	commentMethod: CommentMethod;
+	/**
+	 * List of globs to GitHub problem matcher files, each problem matcher is
+	 * available as a `text` matcher named after its owner.
+	 * @example `['.github/*-problem-matcher.json']`
+	 */
+	problemMatchers: string[];
+	/**
+	 * Publish annotations through the Checks API instead of workflow commands:
+	 * 'none' uses workflow commands, 'single' creates one check run and
+	 * 'per-matcher' creates a check run for each matcher.
+	 */
+	checkRun: CheckRunMode;
+	/** Name of the created check run(s), suffixed with the matcher name for 'per-matcher'. */
+	checkName: string;
+	/**
+	 * How to handle annotations on lines changed in the PR: 'annotate' creates
+	 * annotations, 'comment' lists them in the PR comment and 'drop' discards them.
+	 */
+	changedLines: DiffHandling;
+	/** How to handle annotations on unchanged lines of files changed in the PR. */
+	unchangedLines: DiffHandling;
+	/** How to handle annotations on files not changed in the PR. */
+	outsideDiff: DiffHandling;
+	/**
+	 * Path to a baseline file of known findings to suppress.
+	 * @example `'.github/report-annotate-baseline.json'`
+	 */
+	baseline: string;
+	/** When true, the current annotations are written to the baseline file instead of annotating. */
+	updateBaseline: boolean;
+	/**
+	 * Path to write all findings to as a SARIF 2.1.0 file, e.g. for
+	 * `github/codeql-action/upload-sarif`.
+	 */
+	sarifOutput: string;
+	/**
+	 * Path to write all findings to as a JSON file, including how each finding
+	 * was reported, for dashboards and custom gates.
+	 */
+	findingsOutput: string;
+	/** When true, a job summary is written with the counts per matcher and all annotations by file. */
+	jobSummary: boolean;
+	/**
+	 * When true, a table of the test suite results e.g. of JUnit reports is
+	 * included in the PR comment & job summary, even without findings.
+	 */
+	testResults: boolean;
+	/**
+	 * Duration in seconds over which a test is slow, 0 to disable. Slow tests
+	 * are annotated as notices and the slowest are listed in the PR comment.
+	 */
+	slowTestThreshold: number;
+	/** Number of the slowest tests listed in the PR comment & job summary. */
+	maxSlowTests: number;
+	/**
+	 * Fail the step when annotations of this level or higher are found:
+	 * 'error', 'warning', 'notice' or 'never'.
+	 */
+	failOn: FailOn;
+	/** Number of errors allowed before failing the step, regardless of `failOn`. */
+	maxErrors?: number;
+	/** Number of warnings allowed before failing the step, regardless of `failOn`. */
+	maxWarnings?: number;
+	/**
+	 * Evaluate the fail thresholds against 'all' annotations, or only the ones on
+	 * 'changed-files' or 'changed-lines' of the PR.
+	 */
+	failScope: FailScope;
+	/**
+	 * Key embedded as a hidden marker in the bot comments, so invocations with
+	 * different keys on the same PR keep separate comments. 'auto' uses the job
+	 * label, so set `jobLabel` to tell the entries of a matrix job apart.
+	 * @example `'lint'`
+	 */
+	commentKey: string;
+	/** When true, the comment key is shown in the comment header. */
+	showCommentKey: boolean;
+	/**
+	 * Change the level of the annotations matching each override, applied in
+	 * order so later overrides take precedence.
+	 * @example `[{ title: 'no-console', level: 'notice' }, { file: 'legacy/**', level: 'warning' }]`
+	 */
+	overrides: SeverityOverride[];
+	/**
+	 * Rewrite the file paths of the reports, the first matching mapping is applied.
+	 * @example `[{ from: '/app/' }, { report: 'packages/foo/**', baseDir: 'packages/foo' }]`
+	 */
+	pathMappings: PathMapping[];
+	/** When true, Windows `\` separators in the file paths are replaced with `/`. */
+	normalizePathSeparators: boolean;
+	/**
+	 * When true, the annotation locations are checked against the workspace:
+	 * lines & columns past the end of the file are clamped and annotations on
+	 * missing files are only listed in the comment.
+	 */
+	validateLocations: boolean;
+	/**
+	 * Merge annotations with the same file, line & message e.g. from matrix
+	 * jobs: 'none', from the same 'matcher' or 'all' regardless of the matcher.
+	 */
+	deduplicate: Deduplicate;
+	/**
+	 * List of globs to findings files exported by other jobs with
+	 * `findingsOutput`, to merge into one comment, check run & outputs.
+	 * @example `['findings/**\/*.json']`
+	 */
+	aggregate: string[];
+	/** Label of the job in the findings output, the job id if empty e.g. `node-20` */
+	jobLabel: string;
+	/**
+	 * 'report' the findings as annotations & comments, only 'export' them to
+	 * `findingsOutput` for another job to aggregate, or 'publish' the `aggregate`
+	 * findings on the pull request they were exported on, e.g. in a
+	 * `workflow_run` workflow for fork PRs.
+	 */
+	mode: Mode;
 }
 
 type AnnotationLevel = 'notice' | 'warning' | 'error' | 'ignore';
 
+/** Change the level of annotations matching all the given conditions. */
+export interface SeverityOverride {
+	/** Name of the matcher that found the annotation e.g. `junit-eslint` */
+	matcher?: string;
+	/** Title of the annotation e.g. the rule `no-console` */
+	title?: string;
+	/** Regular expression matching the message */
+	message?: string;
+	/** Glob matching the file e.g. `legacy/**` */
+	file?: string;
+	/** The new level, `ignore` removes the annotation */
+	level: AnnotationLevel;
+}
+
 export interface PendingAnnotation {
 	level: AnnotationLevel;
 	message: string;
 	properties: core.AnnotationProperties;
+	/** Name of the matcher that found the annotation. */
+	matcher?: string;
+	/** Path of the report file the annotation was parsed from. */
+	report?: string;
+	/** Original location of an annotation whose file is not in the workspace. */
+	unresolvedLocation?: string;
+	/** Number of identical annotations merged into this one. */
+	occurrences?: number;
+	/** Labels of the jobs an aggregated annotation was found in, if there are several. */
+	jobs?: string[];
+	/** Autofix replacing the `start` to `end` offsets of the file with `text`. */
+	fix?: { start: number; end: number; text: string };
+	/** Set for a flaky test that failed before passing on a retry. */
+	flaky?: { attempts?: number };
 }
 
 export interface ReportMatcher {
 	/**
 	 * The format of the report e.g. `xml`
 	 * - `xml` the report will be parsed using xpath selectors defined in the other properties.
+	 * - `json` the report will be parsed using JSON path expressions, see `jsonpath-utils.ts`.
+	 * - `text` the report will be matched line by line using the regular expression in `item`
+	 *   and the other properties reference its capture groups, see `text-utils.ts`.
 	 */
-	format: 'xml'; // TODO: 'json' | 'text' | 'yaml' | 'csv' | 'tsv' | 'html'
-	/** Matcher for individual report item e.g. //testcase */
+	format: 'xml' | 'json' | 'text'; // TODO: 'yaml' | 'csv' | 'tsv' | 'html'
+	/** Matcher for individual report item e.g. `//testcase`, `$[*].messages[*]` or a regular expression */
 	item: string;
+	/** Regular expressions matching the lines following `item` for multi-line `text` reports. */
+	patterns?: string[];
+	/** Keep matching the last of `patterns` for the following lines, creating an item per line. */
+	loop?: boolean;
 	/**
 	 * Matchers for the error level relative to item, processed in order and first match is applied.
 	 * If omitted or no match, the level is error.
@@ -81,6 +315,81 @@ export interface ReportMatcher {
 	startColumn?: string;
 	/** Matcher for the end column relative to item */
 	endColumn?: string;
+	/** Matcher for the start offset of the autofix in the file relative to item */
+	fixStart?: string;
+	/** Matcher for the end offset of the autofix in the file relative to item */
+	fixEnd?: string;
+	/** Matcher for the replacement text of the autofix relative to item */
+	fixText?: string;
+	/**
+	 * Matcher for whether the item passed on a retry relative to item e.g. a
+	 * flaky test. Flaky items are notices, left out of the fail thresholds.
+	 */
+	flaky?: string;
+	/** Matcher for the number of attempts of a flaky item relative to item */
+	attempts?: string;
+	/** Matchers for the test suite results of `xml` test reports e.g. JUnit. */
+	testSuites?: TestSuiteMatcher;
+}
+
+/** Matchers for the results of a test suite, relative to the suite item. */
+export interface TestSuiteMatcher {
+	/** Matcher for individual test suites e.g. `//testsuite` */
+	item: string;
+	/** Matcher for the name of the suite */
+	name: string;
+	/** Matcher for the number of tests */
+	tests: string;
+	/** Matcher for the number of failed tests, including errors */
+	failed: string;
+	/** Matcher for the number of skipped tests */
+	skipped: string;
+	/** Matcher for the duration of the suite in seconds */
+	duration?: string;
+	/** Matchers for the tests of the suite, for the slow test analysis. */
+	testCase?: TestCaseMatcher;
+}
+
+/** Matchers for a test case, relative to the test case item. */
+export interface TestCaseMatcher {
+	/** Matcher for individual tests relative to the suite e.g. `testcase` */
+	item: string;
+	/** Matcher for the name of the test */
+	name: string;
+	/** Matcher for the file path of the test */
+	file?: string;
+	/** Matcher for the line of the test declaration */
+	line?: string;
+	/** Matcher for the duration of the test in seconds */
+	duration: string;
+}
+
+/** The result of a test case parsed from a test report. */
+export interface TestCaseResult {
+	name: string;
+	/** Name of the suite the test belongs to. */
+	suite: string;
+	file?: string;
+	line?: number;
+	/** Duration in seconds. */
+	duration: number;
+}
+
+/** The results of a test suite parsed from a test report. */
+export interface TestSuiteResult {
+	name: string;
+	/** Path of the report file the suite was parsed from. */
+	report: string;
+	/** Name of the matcher of the report. */
+	matcher: string;
+	tests: number;
+	passed: number;
+	failed: number;
+	skipped: number;
+	/** Duration in seconds. */
+	duration: number;
+	/** The tests of the suite, if the matcher has `testCase`. */
+	testCases: TestCaseResult[];
 }
 
 /** Built-in report matchers. */
@@ -88,6 +397,9 @@ const builtInReportMatchers: Record<string, ReportMatcher> = {
 	junit: junitMatcher,
 	'junit-eslint': junitEslintMatcher,
 	'junit-jest': junitJestMatcher,
+	sarif: sarifMatcher,
+	checkstyle: checkstyleMatcher,
+	'eslint-json': eslintJsonMatcher,
 };
 
 /**
@@ -101,12 +413,115 @@ export async function run(): Promise<void> {
 
 		const reportMatchers = {
 			...builtInReportMatchers,
+			...(await loadProblemMatchers(config)),
 			...config.customMatchers,
 		};
 
-		const reportFiles = await findReportFiles(config);
-		const allAnnotations = await parseAllReports(reportFiles, reportMatchers);
-		await processAnnotations(allAnnotations, config, reportFiles.size > 0);
+		const reportFiles = await findReportFiles(config.reports, config.ignore);
+		let allAnnotations = await parseAllReports(
+			reportFiles,
+			reportMatchers,
+			config,
+		);
+		const testSuites = await parseTestSuites(
+			reportFiles,
+			reportMatchers,
+			config,
+		);
+		if (config.slowTestThreshold > 0) {
+			allAnnotations.push(
+				...findSlowTests(testSuites, config.slowTestThreshold),
+			);
+		}
+		const matcherNames = [...reportFiles.keys()];
+		if (config.mode === 'publish' && config.aggregate.length === 0) {
+			throw new Error(
+				'The findings files to aggregate must be configured to publish findings.',
+			);
+		}
+		let suppressed: PendingAnnotation[] = [];
+		let preExisting: PendingAnnotation[] = [];
+		if (config.aggregate.length > 0) {
+			const aggregated = await aggregateFindings(
+				config.aggregate,
+				config.ignore,
+			);
+			if (config.mode === 'publish') {
+				await usePullRequest(aggregated.pullRequest);
+			}
+			allAnnotations.push(...aggregated.annotations);
+			suppressed = aggregated.suppressed;
+			preExisting = aggregated.preExisting;
+			for (const matcher of aggregated.matchers) {
+				if (!matcherNames.includes(matcher)) matcherNames.push(matcher);
+			}
+		}
+		allAnnotations = applyOverrides(allAnnotations, config.overrides);
+		if (config.sarifOutput) {
+			await writeSarifOutput(config.sarifOutput, allAnnotations);
+		}
+		if (config.updateBaseline) {
+			await updateBaseline(config.baseline, allAnnotations);
+			return;
+		}
+		if (config.baseline) {
+			const result = await suppressBaseline(config.baseline, allAnnotations);
+			allAnnotations = result.annotations;
+			suppressed = [...suppressed, ...result.suppressed];
+		}
+		if (config.baseReports.length > 0) {
+			const result = await compareBaseReports(
+				config,
+				reportMatchers,
+				allAnnotations,
+			);
+			allAnnotations = result.annotations;
+			preExisting = [...preExisting, ...result.suppressed];
+		}
+		if (config.deduplicate !== 'none') {
+			allAnnotations = deduplicateAnnotations(
+				allAnnotations,
+				config.deduplicate,
+			);
+		}
+		// Validate last, so the baseline & base reports match on the reported paths.
+		if (config.validateLocations) await validateLocations(allAnnotations);
+		if (config.mode === 'export') {
+			if (!config.findingsOutput) {
+				throw new Error(
+					'The findings output must be configured to export findings.',
+				);
+			}
+			await writeFindingsOutput(
+				config.findingsOutput,
+				config.jobLabel || github.context.job,
+				matcherNames,
+				[
+					...allAnnotations.map(a => ({
+						annotation: a,
+						status: 'exported' as const,
+					})),
+					...preExisting.map(a => ({
+						annotation: a,
+						status: 'pre-existing' as const,
+					})),
+					...suppressed.map(a => ({
+						annotation: a,
+						status: 'suppressed' as const,
+					})),
+				],
+				null,
+			);
+			return;
+		}
+		await processAnnotations(
+			allAnnotations,
+			config,
+			matcherNames,
+			preExisting,
+			suppressed,
+			testSuites,
+		);
 	} catch (error) {
 		if (error instanceof Error) core.setFailed(error);
 		throw error;
@@ -115,9 +530,10 @@ export async function run(): Promise<void> {
 
 /** Find report files for all configured matchers. */
 async function findReportFiles(
-	config: Config,
+	reports: string[],
+	ignore: string[],
 ): Promise<Map<string, Set<string>>> {
-	const reportMatcherPatterns = config.reports.map(report => {
+	const reportMatcherPatterns = reports.map(report => {
 		const parts = report.split('|');
 		if (parts.length !== 2) {
 			throw new Error(
@@ -131,7 +547,7 @@ async function findReportFiles(
 	for (const { matcher, patterns } of reportMatcherPatterns) {
 		core.startGroup(`Finding ${matcher} reports`);
 		try {
-			const files = await globFiles(patterns, config.ignore);
+			const files = await globFiles(patterns, ignore);
 			if (files.size === 0) {
 				core.warning(
 					`No reports found for ${matcher} using patterns ${patterns}`,
@@ -147,12 +563,425 @@ async function findReportFiles(
 	return reportFiles;
 }
 
+/**
+ * Separate the annotations that also exist in the base branch reports, as
+ * pre-existing annotations are not introduced by the PR.
+ */
+async function compareBaseReports(
+	config: Config,
+	reportMatchers: Record<string, ReportMatcher>,
+	annotations: PendingAnnotation[],
+): Promise<ReturnType<typeof applyBaseline>> {
+	const baseReportFiles = await findReportFiles(
+		config.baseReports,
+		config.ignore,
+	);
+	const baseAnnotations = await parseAllReports(
+		baseReportFiles,
+		reportMatchers,
+		config,
+	);
+	const result = applyBaseline(annotations, createBaseline(baseAnnotations));
+	core.info(
+		`${result.suppressed.length} annotation(s) also exist in the base reports, ${result.annotations.length} are new.`,
+	);
+	return result;
+}
+
+/** Change the annotation levels with the configured overrides, removing ignored ones. */
+function applyOverrides(
+	annotations: PendingAnnotation[],
+	overrides: SeverityOverride[],
+): PendingAnnotation[] {
+	if (overrides.length === 0) return annotations;
+	const levels: AnnotationLevel[] = ['error', 'warning', 'notice', 'ignore'];
+	const rules = overrides.map(override => {
+		if (!levels.includes(override.level)) {
+			throw new Error(
+				`Invalid override level '${override.level}', expected one of ${levels.join(', ')}.`,
+			);
+		}
+		const message = override.message ? new RegExp(override.message) : null;
+		const matches = (annotation: PendingAnnotation) =>
+			(!override.matcher || override.matcher === annotation.matcher) &&
+			(!override.title || override.title === annotation.properties.title) &&
+			(!message || message.test(annotation.message)) &&
+			(!override.file ||
+				minimatch(annotation.properties.file ?? '', override.file, {
+					dot: true,
+				}));
+		return { matches, level: override.level };
+	});
+	let changed = 0;
+	const kept: PendingAnnotation[] = [];
+	for (const annotation of annotations) {
+		let level = annotation.level;
+		for (const rule of rules) {
+			if (rule.matches(annotation)) level = rule.level;
+		}
+		if (level !== annotation.level) changed++;
+		if (level === 'ignore') continue;
+		kept.push({ ...annotation, level });
+	}
+	core.info(
+		`Overrides changed the level of ${changed} annotation(s), ${annotations.length - kept.length} are ignored.`,
+	);
+	return kept;
+}
+
+/**
+ * Merge annotations with the same file, line & message, keeping the most severe
+ * level, summing their `occurrences` and the jobs of aggregated findings.
+ */
+function deduplicateAnnotations(
+	annotations: PendingAnnotation[],
+	mode: Deduplicate,
+): PendingAnnotation[] {
+	const severity: Record<AnnotationLevel, number> = {
+		error: 3,
+		warning: 2,
+		notice: 1,
+		ignore: 0,
+	};
+	const groups = new Map<string, PendingAnnotation[]>();
+	for (const annotation of annotations) {
+		const key =
+			mode === 'matcher'
+				? `${annotation.matcher}:${annotationKey(annotation)}`
+				: annotationKey(annotation);
+		groups.set(key, [...(groups.get(key) ?? []), annotation]);
+	}
+	const merged = [...groups.values()].map(([first, ...duplicates]) => {
+		if (duplicates.length === 0) return first;
+		const level = duplicates.reduce(
+			(max, a) => (severity[a.level] > severity[max] ? a.level : max),
+			first.level,
+		);
+		const all = [first, ...duplicates];
+		const jobs = [...new Set(all.flatMap(a => a.jobs ?? []))];
+		return {
+			...first,
+			level,
+			occurrences: all.reduce((sum, a) => sum + (a.occurrences ?? 1), 0),
+			jobs: jobs.length > 0 ? jobs : undefined,
+		};
+	});
+	core.info(
+		`Merged ${annotations.length - merged.length} duplicate annotation(s), ${merged.length} remain.`,
+	);
+	return merged;
+}
+
+/**
+ * Check the annotation locations against the workspace, as GitHub drops or
+ * misplaces annotations on missing files and lines. Lines & columns past the
+ * end of the file are clamped and annotations on missing files lose their
+ * location, keeping it as `unresolvedLocation`.
+ */
+async function validateLocations(
+	annotations: PendingAnnotation[],
+): Promise<void> {
+	const workspace = process.env.GITHUB_WORKSPACE || process.cwd();
+	const sources = new Map<string, Promise<string[] | undefined>>();
+	const readLines = async (file: string) => {
+		const path = join(workspace, file);
+		if (isAbsolute(file) || relative(workspace, path).startsWith('..')) {
+			return undefined;
+		}
+		try {
+			if (!(await stat(path)).isFile()) return undefined;
+			const lines = (await readFile(path, 'utf8')).split(/\r?\n/);
+			if (lines.at(-1) === '') lines.pop();
+			return lines;
+		} catch {
+			return undefined;
+		}
+	};
+	let clamped = 0;
+	let unresolved = 0;
+	for (const annotation of annotations) {
+		const { file, startLine, endLine, startColumn, endColumn } =
+			annotation.properties;
+		if (!file) continue;
+		if (!sources.has(file)) sources.set(file, readLines(file));
+		const lines = await sources.get(file)!;
+		if (!lines) {
+			core.debug(`Annotation file ${file} not found in the workspace.`);
+			annotation.unresolvedLocation = startLine ? `${file}:${startLine}` : file;
+			annotation.properties = { title: annotation.properties.title };
+			unresolved++;
+			continue;
+		}
+		const lastLine = Math.max(lines.length, 1);
+		const properties = { ...annotation.properties };
+		if (startLine && startLine > lastLine) {
+			// The columns are meaningless on another line.
+			properties.startLine = lastLine;
+			properties.startColumn = undefined;
+			properties.endColumn = undefined;
+		}
+		if (endLine && endLine > lastLine) properties.endLine = lastLine;
+		const lineLength = (lines[(properties.startLine ?? 1) - 1] ?? '').length;
+		if (properties.startColumn && properties.startColumn > lineLength + 1) {
+			properties.startColumn = undefined;
+			properties.endColumn = undefined;
+		}
+		if (
+			properties.endColumn &&
+			(properties.endLine ?? properties.startLine) === properties.startLine &&
+			properties.endColumn > lineLength + 1
+		) {
+			properties.endColumn = lineLength + 1;
+		}
+		if (
+			properties.startLine !== startLine ||
+			properties.endLine !== endLine ||
+			properties.startColumn !== startColumn ||
+			properties.endColumn !== endColumn
+		) {
+			annotation.properties = properties;
+			clamped++;
+		}
+	}
+	core.info(
+		`Clamped ${clamped} annotation location(s) to the source files, ${unresolved} could not be resolved.`,
+	);
+}
+
+/**
+ * Load the findings exported by other jobs with `findings-output`. Identical
+ * findings are merged and labelled with the jobs they were found in, findings
+ * suppressed or pre-existing in their job stay so.
+ */
+async function aggregateFindings(
+	patterns: string[],
+	ignore: string[],
+): Promise<{
+	annotations: PendingAnnotation[];
+	suppressed: PendingAnnotation[];
+	preExisting: PendingAnnotation[];
+	matchers: string[];
+	pullRequest?: PullRequestRef;
+}> {
+	const files = await globFiles(patterns, ignore);
+	// The findings files may be written by an untrusted workflow.
+	const levels: AnnotationLevel[] = ['error', 'warning', 'notice'];
+	const statuses: FindingStatus[] = [
+		'annotated',
+		'reviewed',
+		'commented',
+		'skipped',
+		'dropped',
+		'pre-existing',
+		'suppressed',
+		'exported',
+	];
+	const matchers = new Set<string>();
+	const jobs = new Set<string>();
+	let pullRequest: PullRequestRef | undefined;
+	const merged = new Map<
+		string,
+		{ annotation: PendingAnnotation; status: FindingStatus }
+	>();
+	// Sort the files so the jobs are labelled in a stable order.
+	for (const file of [...files].sort()) {
+		const output = JSON.parse(await readFile(file, 'utf8')) as FindingsOutput;
+		if (output?.version !== 1 || !Array.isArray(output.findings)) {
+			throw new Error(
+				`Unsupported findings format in ${file}, expected version 1`,
+			);
+		}
+		const job = output.job || file;
+		jobs.add(job);
+		if (output.pullRequest) {
+			if (pullRequest && pullRequest.number !== output.pullRequest.number) {
+				throw new Error(
+					`The findings files are of different pull requests: #${pullRequest.number} and #${output.pullRequest.number}.`,
+				);
+			}
+			pullRequest = output.pullRequest;
+		}
+		for (const matcher of output.matchers ?? []) matchers.add(matcher);
+		for (const finding of output.findings) {
+			if (!levels.includes(finding.level)) {
+				throw new Error(
+					`Invalid finding level '${finding.level}' in ${file}, expected one of ${levels.join(', ')}.`,
+				);
+			}
+			if (!statuses.includes(finding.status)) {
+				throw new Error(
+					`Invalid finding status '${finding.status}' in ${file}, expected one of ${statuses.join(', ')}.`,
+				);
+			}
+			const annotation: PendingAnnotation = {
+				level: finding.level,
+				message: finding.message,
+				properties: {
+					title: finding.title,
+					file: finding.file,
+					startLine: finding.startLine,
+					endLine: finding.endLine,
+					startColumn: finding.startColumn,
+					endColumn: finding.endColumn,
+				},
+				matcher: finding.matcher,
+				report: finding.report,
+				unresolvedLocation: finding.unresolvedLocation,
+				occurrences: finding.occurrences,
+				jobs: [job],
+				flaky: finding.flaky,
+			};
+			const key = `${finding.matcher}:${finding.status}:${annotationKey(annotation)}:${finding.unresolvedLocation}`;
+			const existing = merged.get(key);
+			if (existing) {
+				if (!existing.annotation.jobs!.includes(job)) {
+					existing.annotation.jobs!.push(job);
+				}
+				existing.annotation.occurrences =
+					(existing.annotation.occurrences ?? 1) + (finding.occurrences ?? 1);
+				continue;
+			}
+			merged.set(key, { annotation, status: finding.status });
+		}
+	}
+	const result = {
+		annotations: [] as PendingAnnotation[],
+		suppressed: [] as PendingAnnotation[],
+		preExisting: [] as PendingAnnotation[],
+		matchers: [...matchers],
+		pullRequest,
+	};
+	for (const { annotation, status } of merged.values()) {
+		// Label the findings only when there are several jobs to tell apart.
+		if (jobs.size === 1) delete annotation.jobs;
+		if (status === 'suppressed') result.suppressed.push(annotation);
+		else if (status === 'pre-existing') result.preExisting.push(annotation);
+		else result.annotations.push(annotation);
+	}
+	core.info(
+		`Aggregated ${merged.size} finding(s) from ${files.size} findings file(s).`,
+	);
+	return result;
+}
+
+/**
+ * Publish the findings on the pull request they were collected on, as e.g. a
+ * `workflow_run` workflow has no pull request in its payload. The findings file
+ * is written by the untrusted workflow, so the pull request is looked up and
+ * must be of the head commit & repository of the triggering workflow run.
+ */
+async function usePullRequest(pullRequest?: PullRequestRef): Promise<void> {
+	if (!pullRequest) {
+		core.info('The findings files are not of a pull request.');
+		return;
+	}
+	const run = github.context.payload.workflow_run;
+	if (!run) {
+		throw new Error(
+			'Findings can only be published from a workflow_run workflow.',
+		);
+	}
+	if (run.head_sha !== pullRequest.headSha) {
+		throw new Error(
+			`The findings of ${pullRequest.headSha} do not match the head ${run.head_sha} of the workflow run.`,
+		);
+	}
+	const octokit = github.getOctokit(
+		core.getInput('token') || process.env.GITHUB_TOKEN!,
+	);
+	const { data: pr } = await octokit.rest.pulls.get({
+		...github.context.repo,
+		pull_number: pullRequest.number,
+	});
+	if (
+		pr.head.sha !== run.head_sha ||
+		pr.head.repo?.id !== run.head_repository?.id
+	) {
+		throw new Error(
+			`The head of PR #${pullRequest.number} does not match the head ${run.head_sha} of the workflow run.`,
+		);
+	}
+	github.context.payload.pull_request = {
+		number: pullRequest.number,
+		head: { sha: pullRequest.headSha },
+	};
+	core.info(
+		`Publishing the findings of PR #${pullRequest.number} at ${pullRequest.headSha}.`,
+	);
+}
+
+/** Write all annotations to a SARIF file e.g. for code scanning upload. */
+async function writeSarifOutput(
+	file: string,
+	annotations: PendingAnnotation[],
+): Promise<void> {
+	const sarif = createSarifLog(annotations);
+	await writeFile(file, `${JSON.stringify(sarif, null, '\t')}\n`);
+	const results = sarif.runs.reduce((sum, run) => sum + run.results.length, 0);
+	core.info(`Wrote ${results} finding(s) to SARIF file ${file}.`);
+}
+
+/** Write the annotations to the baseline file, replacing the previous findings. */
+async function updateBaseline(
+	file: string,
+	annotations: PendingAnnotation[],
+): Promise<void> {
+	if (!file) {
+		throw new Error('The baseline file must be configured to update it.');
+	}
+	const baseline = createBaseline(annotations);
+	await writeFile(file, `${JSON.stringify(baseline, null, '\t')}\n`);
+	core.info(
+		`Wrote ${baseline.findings.length} finding(s) of ${annotations.length} annotation(s) to baseline ${file}.`,
+	);
+}
+
+/** Separate the annotations found in the baseline file & report fixed findings. */
+async function suppressBaseline(
+	file: string,
+	annotations: PendingAnnotation[],
+): Promise<ReturnType<typeof applyBaseline>> {
+	if (!existsSync(file)) {
+		core.warning(`Baseline ${file} not found, no annotations are suppressed.`);
+		return { annotations, suppressed: [], fixed: [] };
+	}
+	const result = applyBaseline(
+		annotations,
+		parseBaseline(await readFile(file, 'utf8')),
+	);
+	core.info(
+		`Suppressed ${result.suppressed.length} annotation(s) found in baseline ${file}.`,
+	);
+	if (result.fixed.length > 0) {
+		core.warning(
+			`${result.fixed.length} baseline finding(s) no longer occur, update baseline ${file} to remove them.`,
+		);
+		for (const finding of result.fixed) {
+			core.info(
+				`Fixed: ${[finding.file, finding.title, finding.message].filter(Boolean).join(': ')}`,
+			);
+		}
+	}
+	return result;
+}
+
+/** Options for mapping the file paths of the reports to the repository. */
+function getPathOptions(config: Config): PathOptions {
+	return {
+		workspace: process.env.GITHUB_WORKSPACE,
+		mappings: config.pathMappings,
+		normalizeSeparators: config.normalizePathSeparators,
+	};
+}
+
 /** Parse all reports and collect annotations. */
 async function parseAllReports(
 	reportFiles: Map<string, Set<string>>,
 	reportMatchers: Record<string, ReportMatcher>,
+	config: Config,
 ): Promise<PendingAnnotation[]> {
 	const allAnnotations: PendingAnnotation[] = [];
+	const pathOptions = getPathOptions(config);
 
 	for (const [matcherName, files] of reportFiles) {
 		const matcher = reportMatchers[matcherName];
@@ -161,15 +990,33 @@ async function parseAllReports(
 		core.startGroup(`Parsing ${matcherName} reports`);
 		for (const file of files) {
 			core.debug(`Parsing ${file}`);
+			const parsedCount = allAnnotations.length;
 			switch (matcher.format) {
 				case 'xml':
 					await parseXmlReport(file, matcher, allAnnotations);
 					break;
+				case 'json':
+					await parseJsonReport(file, matcher, allAnnotations);
+					break;
+				case 'text':
+					await parseTextReport(file, matcher, allAnnotations);
+					break;
 				default:
 					throw new Error(
 						`Unsupported matcher format in ${matcherName}: ${matcher.format}`,
 					);
 			}
+			for (const annotation of allAnnotations.slice(parsedCount)) {
+				annotation.matcher = matcherName;
+				annotation.report = file;
+				if (annotation.properties.file) {
+					annotation.properties.file = mapPath(
+						annotation.properties.file,
+						file,
+						pathOptions,
+					);
+				}
+			}
 		}
 		core.info(
 			`Parsed ${allAnnotations.length} annotation(s) from ${files.size} report(s)`,
@@ -180,14 +1027,60 @@ async function parseAllReports(
 	return allAnnotations;
 }
 
-/** Fetch the list of files changed in the PR via the GitHub API. */
+/** An inclusive range of line numbers. */
+export interface LineRange {
+	start: number;
+	end: number;
+}
+
+/** A file changed in the PR. */
+export interface ChangedFile {
+	/** Line ranges of the new file shown in the diff, including context lines. */
+	hunks: LineRange[];
+	/**
+	 * Line ranges of the new file added or modified in the PR. Undefined when
+	 * GitHub omits the patch e.g. for large diffs, the whole file is then
+	 * considered changed.
+	 */
+	lines?: LineRange[];
+}
+
+/** Parse the new file line ranges of the hunks and changed lines in a unified diff patch. */
+export function parsePatch(patch?: string): ChangedFile {
+	if (patch === undefined) return { hunks: [] };
+	const hunks: LineRange[] = [];
+	const lines: LineRange[] = [];
+	let line = 0;
+	for (const text of patch.split(/\r?\n/)) {
+		const header = text.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
+		if (header) {
+			line = Number(header[1]);
+			const count = header[2] === undefined ? 1 : Number(header[2]);
+			// Hunks that only remove lines have no lines in the new file.
+			if (count > 0) hunks.push({ start: line, end: line + count - 1 });
+		} else if (text.startsWith('+')) {
+			// Merge consecutive added lines into a single range.
+			const last = lines.at(-1);
+			if (last && last.end === line - 1) last.end = line;
+			else lines.push({ start: line, end: line });
+			line++;
+		} else if (!text.startsWith('-') && !text.startsWith('\\')) {
+			// A context line, removed lines & "\ No newline at end of file"
+			// markers are not part of the new file.
+			line++;
+		}
+	}
+	return { hunks, lines };
+}
+
+/** Fetch the files changed in the PR and their diff lines via the GitHub API. */
 export async function getPrChangedFiles(
 	octokit: ReturnType<typeof github.getOctokit>,
 	owner: string,
 	repo: string,
 	pullNumber: number,
-): Promise<Set<string>> {
-	const changedFiles = new Set<string>();
+): Promise<Map<string, ChangedFile>> {
+	const changedFiles = new Map<string, ChangedFile>();
 	let page = 1;
 	const perPage = 100;
 	while (true) {
@@ -199,7 +1092,7 @@ export async function getPrChangedFiles(
 			per_page: perPage,
 		});
 		for (const file of response.data) {
-			changedFiles.add(file.filename);
+			changedFiles.set(file.filename, parsePatch(file.patch));
 		}
 		if (response.data.length < perPage) break;
 		page++;
@@ -207,11 +1100,35 @@ export async function getPrChangedFiles(
 	return changedFiles;
 }
 
+/**
+ * Find where the annotation is in the PR diff. Annotations without a file, or
+ * on files without a patch, are considered to be on changed lines.
+ */
+function getDiffScope(
+	annotation: PendingAnnotation,
+	changedFiles: Map<string, ChangedFile>,
+): DiffScope {
+	const { file, startLine, endLine } = annotation.properties;
+	if (!file) return 'changedLines';
+	const changedFile = changedFiles.get(file);
+	if (!changedFile) return 'outsideDiff';
+	if (!changedFile.lines || startLine === undefined) return 'changedLines';
+	const end = endLine ?? startLine;
+	return changedFile.lines.some(
+		range => range.start <= end && startLine <= range.end,
+	)
+		? 'changedLines'
+		: 'unchangedLines';
+}
+
 /** Process and create annotations with limits. */
 async function processAnnotations(
 	allAnnotations: PendingAnnotation[],
 	config: Config,
-	reportsFound: boolean,
+	matcherNames: string[],
+	preExisting: PendingAnnotation[],
+	suppressed: PendingAnnotation[],
+	testSuites: TestSuiteResult[],
 ): Promise<void> {
 	// Sort annotations by priority: errors first, then warnings, then notices
 	// Ignore level annotations are already filtered out during collection
@@ -226,10 +1143,11 @@ async function processAnnotations(
 	);
 
 	// If on a PR, fetch changed files and partition annotations
-	let changedFiles: Set<string> | null = null;
+	let changedFiles: Map<string, ChangedFile> | null = null;
 	let octokit: ReturnType<typeof github.getOctokit> | null = null;
 	let pullNumber = 0;
 	const { owner, repo } = github.context.repo;
+	const commentKey = getCommentKey(config);
 
 	if (github.context.payload.pull_request) {
 		octokit = github.getOctokit(
@@ -247,29 +1165,71 @@ async function processAnnotations(
 		}
 	}
 
-	// Partition annotations into in-diff and out-of-diff
-	const inDiffAnnotations: PendingAnnotation[] = [];
-	const outOfDiffAnnotations: PendingAnnotation[] = [];
+	// Partition annotations by where they are in the PR diff. Outside a PR
+	// every annotation is annotated.
+	const diffScopes: Record<DiffScope, PendingAnnotation[]> = {
+		changedLines: [],
+		unchangedLines: [],
+		outsideDiff: [],
+	};
+	// Annotations without a location in the workspace are only listed in the comment.
+	const unresolved: PendingAnnotation[] = [];
 	for (const annotation of allAnnotations) {
-		if (
-			changedFiles &&
-			annotation.properties.file &&
-			!changedFiles.has(annotation.properties.file)
-		) {
-			outOfDiffAnnotations.push(annotation);
-		} else {
-			inDiffAnnotations.push(annotation);
+		if (annotation.unresolvedLocation) {
+			unresolved.push(annotation);
+			continue;
 		}
+		const scope = changedFiles
+			? getDiffScope(annotation, changedFiles)
+			: 'changedLines';
+		diffScopes[scope].push(annotation);
 	}
 
-	if (outOfDiffAnnotations.length > 0) {
+	if (diffScopes.unchangedLines.length > 0) {
+		core.info(
+			`${diffScopes.unchangedLines.length} annotation(s) target unchanged lines in the PR diff.`,
+		);
+	}
+	if (diffScopes.outsideDiff.length > 0) {
 		core.info(
-			`${outOfDiffAnnotations.length} annotation(s) target files outside the PR diff.`,
+			`${diffScopes.outsideDiff.length} annotation(s) target files outside the PR diff.`,
 		);
 	}
 
-	// Apply the per-type annotation limits to in-diff annotations only
-	const maxPerType = config.maxAnnotations;
+	// Annotate, comment or drop the annotations of each scope as configured.
+	const inDiffAnnotations: PendingAnnotation[] = [];
+	const commentedAnnotations: Record<DiffScope, PendingAnnotation[]> = {
+		changedLines: [],
+		unchangedLines: [],
+		outsideDiff: [],
+	};
+	const droppedAnnotations = new Set<PendingAnnotation>();
+	for (const [scope, annotations] of Object.entries(diffScopes) as [
+		DiffScope,
+		PendingAnnotation[],
+	][]) {
+		const handling = changedFiles ? config[scope] : 'annotate';
+		if (handling === 'annotate') inDiffAnnotations.push(...annotations);
+		else if (handling === 'comment')
+			commentedAnnotations[scope].push(...annotations);
+		else
+			for (const annotation of annotations) droppedAnnotations.add(annotation);
+	}
+	if (droppedAnnotations.size > 0) {
+		core.info(`Dropped ${droppedAnnotations.size} annotation(s).`);
+	}
+	const reportedAnnotations = allAnnotations.filter(
+		a => !droppedAnnotations.has(a),
+	);
+	// Keep the priority order after merging the scopes.
+	inDiffAnnotations.sort(
+		(a, b) => priorityOrder[a.level] - priorityOrder[b.level],
+	);
+
+	// Apply the per-type annotation limits to in-diff annotations only. Check
+	// runs are not limited, so every annotation can be shown.
+	const useCheckRun = config.checkRun !== 'none';
+	const maxPerType = useCheckRun ? Infinity : config.maxAnnotations;
 	const errors = inDiffAnnotations
 		.filter(a => a.level === 'error')
 		.slice(0, maxPerType);
@@ -283,11 +1243,14 @@ async function processAnnotations(
 	const tally = { errors: 0, warnings: 0, notices: 0, total: 0 };
 
 	for (const annotation of annotationsToCreate) {
-		// Type assertion is safe because we filter out 'ignore' level during collection
-		core[annotation.level as 'error' | 'warning' | 'notice'](
-			annotation.message,
-			annotation.properties,
-		);
+		// Check run annotations are uploaded in batches afterwards.
+		if (!useCheckRun) {
+			// Type assertion is safe because we filter out 'ignore' level during collection
+			core[annotation.level as 'error' | 'warning' | 'notice'](
+				displayMessage(annotation),
+				annotation.properties,
+			);
+		}
 		if (annotation.level === 'error') tally.errors++;
 		if (annotation.level === 'warning') tally.warnings++;
 		if (annotation.level === 'notice') tally.notices++;
@@ -314,52 +1277,141 @@ async function processAnnotations(
 		);
 	}
 
+	// Post annotations on changed lines as a review, the rest falls back to an
+	// updated summary comment.
+	let reviewed = new Set<PendingAnnotation>();
+	if (
+		config.commentMethod === 'review' &&
+		octokit &&
+		pullNumber &&
+		changedFiles
+	) {
+		reviewed = await createReview(
+			octokit,
+			owner,
+			repo,
+			pullNumber,
+			commentKey,
+			inDiffAnnotations,
+			changedFiles,
+		);
+	}
+	const commentMethod =
+		config.commentMethod === 'review' ? 'update' : config.commentMethod;
+	const notReviewed = (a: PendingAnnotation) => !reviewed.has(a);
+
+	const totalCounts = countLevels(reportedAnnotations);
+	if (useCheckRun) {
+		await createCheckRuns(
+			octokit ??
+				github.getOctokit(core.getInput('token') || process.env.GITHUB_TOKEN!),
+			reportedAnnotations,
+			annotationsToCreate,
+			matcherNames,
+			config,
+		);
+	}
+
 	// Determine if we need a PR comment
-	const allErrors = allAnnotations.filter(a => a.level === 'error');
-	const inDiffOnlyErrors = inDiffAnnotations.filter(a => a.level === 'error');
+	const flaky = reportedAnnotations.filter(a => a.flaky);
+	const slowTests =
+		config.slowTestThreshold > 0
+			? testSuites
+					.flatMap(suite => suite.testCases)
+					.sort((a, b) => b.duration - a.duration)
+					.slice(0, config.maxSlowTests)
+			: [];
+	const allErrors = reportedAnnotations
+		.filter(a => a.level === 'error')
+		.filter(notReviewed);
+	const inDiffOnlyErrors = inDiffAnnotations
+		.filter(a => a.level === 'error')
+		.filter(notReviewed);
 	const hasErrors = allErrors.length > 0;
-	const hasOutOfDiff = outOfDiffAnnotations.length > 0;
-	const hasSkipped = totalSkipped > 0;
+	const hasCommented = Object.values(commentedAnnotations).some(
+		annotations => annotations.length > 0,
+	);
+	const hasSkipped =
+		[...skippedErrors, ...skippedWarnings, ...skippedNotices].filter(
+			notReviewed,
+		).length > 0;
 	const needsComment =
-		(hasErrors && config.alwaysCommentErrors) || hasOutOfDiff || hasSkipped;
+		(hasErrors && config.alwaysCommentErrors) ||
+		hasCommented ||
+		hasSkipped ||
+		unresolved.length > 0 ||
+		preExisting.length > 0 ||
+		flaky.length > 0 ||
+		slowTests.some(test => test.duration > config.slowTestThreshold) ||
+		(config.testResults && testSuites.length > 0);
+	// Fetch the previous bot comments once, to compare with the findings of
+	// the previous run and to minimize or update them.
+	let botComments: BotComment[] | undefined;
+	if (octokit && pullNumber) {
+		try {
+			botComments = await fetchBotComments(
+				octokit,
+				owner,
+				repo,
+				pullNumber,
+				commentKey.key,
+			);
+		} catch (error) {
+			core.warning(`Failed to fetch previous bot comments: ${error}`);
+		}
+	}
+	const previous = botComments?.filter(c => c.findings).at(-1);
+	const changes =
+		previous && compareFindings(reportedAnnotations, previous.findings!);
+
+	const sections: SummarySections = {
+		changes,
+		preExisting,
+		allErrors: config.alwaysCommentErrors ? inDiffOnlyErrors : [],
+		skippedErrors: skippedErrors.filter(notReviewed),
+		skippedWarnings: skippedWarnings.filter(notReviewed),
+		skippedNotices: skippedNotices.filter(notReviewed),
+		commentedAnnotations,
+		unresolved,
+		flaky,
+		testSuites: config.testResults ? testSuites : [],
+		slowTests,
+		slowTestThreshold: config.slowTestThreshold,
+		maxPerType,
+		totalCounts,
+	};
 
-	if (!reportsFound && octokit && pullNumber) {
+	if (matcherNames.length === 0 && octokit && pullNumber) {
 		await postNoReportsFoundWarning(
 			octokit,
 			owner,
 			repo,
 			pullNumber,
-			config.commentMethod,
+			commentKey,
+			commentMethod,
 			config.reports,
+			botComments,
 		);
 	} else if (needsComment) {
 		// If on a PR, minimize previous bot comments only when a replacement
 		// comment will be created.
-		if (octokit && pullNumber && config.commentMethod === 'minimize') {
-			await minimizePreviousBotComments(octokit, owner, repo, pullNumber);
+		if (octokit && pullNumber && commentMethod === 'minimize') {
+			await minimizePreviousBotComments(
+				octokit,
+				owner,
+				repo,
+				pullNumber,
+				commentKey.key,
+				botComments,
+			);
 		}
 
-		const totalErrors = allAnnotations.filter(a => a.level === 'error').length;
-		const totalWarnings = allAnnotations.filter(
-			a => a.level === 'warning',
-		).length;
-		const totalNotices = allAnnotations.filter(
-			a => a.level === 'notice',
-		).length;
-
 		await createSummaryComment({
-			allErrors: config.alwaysCommentErrors ? inDiffOnlyErrors : [],
-			skippedErrors,
-			skippedWarnings,
-			skippedNotices,
-			outOfDiffAnnotations,
-			maxPerType,
-			totalCounts: {
-				errors: totalErrors,
-				warnings: totalWarnings,
-				notices: totalNotices,
-			},
-			commentMethod: config.commentMethod,
+			...sections,
+			findings: reportedAnnotations,
+			commentKey,
+			commentMethod,
+			botComments,
 			octokit,
 			owner,
 			repo,
@@ -376,7 +1428,23 @@ async function processAnnotations(
 			owner,
 			repo,
 			pullNumber,
-			config.commentMethod,
+			commentKey,
+			commentMethod,
+			reportedAnnotations,
+			botComments,
+		);
+	}
+
+	if (config.jobSummary) {
+		await writeJobSummary(
+			commentKey.header,
+			// Every annotation is in the findings table, no need to repeat errors.
+			{ ...sections, allErrors: [] },
+			reportedAnnotations,
+			matcherNames,
+			pullNumber
+				? `https://github.com/${owner}/${repo}/pull/${pullNumber}/files`
+				: undefined,
 		);
 	}
 
@@ -385,11 +1453,255 @@ async function processAnnotations(
 	core.setOutput('warnings', tally.warnings);
 	core.setOutput('notices', tally.notices);
 	core.setOutput('total', tally.total);
+	if (testSuites.length > 0) {
+		const totals = sumTestSuites(testSuites);
+		core.setOutput('tests', totals.tests);
+		core.setOutput('passed', totals.passed);
+		core.setOutput('failed', totals.failed);
+		core.setOutput('skipped', totals.skipped);
+		core.setOutput('duration', totals.duration);
+	}
+
+	if (config.findingsOutput) {
+		const annotated = new Set(annotationsToCreate);
+		const commented = new Set([
+			...Object.values(commentedAnnotations).flat(),
+			...unresolved,
+		]);
+		const findingStatus = (a: PendingAnnotation): FindingStatus => {
+			if (droppedAnnotations.has(a)) return 'dropped';
+			if (annotated.has(a)) return 'annotated';
+			if (reviewed.has(a)) return 'reviewed';
+			if (commented.has(a)) return 'commented';
+			return 'skipped';
+		};
+		await writeFindingsOutput(
+			config.findingsOutput,
+			config.jobLabel || github.context.job,
+			matcherNames,
+			[
+				...allAnnotations.map(a => ({
+					annotation: a,
+					status: findingStatus(a),
+				})),
+				...preExisting.map(a => ({
+					annotation: a,
+					status: 'pre-existing' as const,
+				})),
+				...suppressed.map(a => ({
+					annotation: a,
+					status: 'suppressed' as const,
+				})),
+			],
+			changedFiles,
+		);
+	}
+
+	// Fail the step last, so annotations and comments are posted regardless.
+	const failScopes: Record<FailScope, DiffScope[]> = {
+		all: ['changedLines', 'unchangedLines', 'outsideDiff'],
+		'changed-files': ['changedLines', 'unchangedLines'],
+		'changed-lines': ['changedLines'],
+	};
+	checkFailThresholds(
+		countLevels(
+			[
+				...failScopes[config.failScope]
+					.flatMap(scope => diffScopes[scope])
+					.filter(a => !droppedAnnotations.has(a)),
+				...(config.failScope === 'all' ? unresolved : []),
+			].filter(a => !a.flaky),
+		),
+		config,
+	);
+}
+
+/**
+ * How a finding was reported:
+ * - `annotated` created as an annotation, possibly also posted in a review.
+ * - `reviewed` posted as a review comment only, over the annotation limit.
+ * - `commented` listed in the PR comment by the diff scope handling.
+ * - `skipped` over the annotation limit, listed in the PR comment.
+ * - `dropped` discarded by the diff scope handling.
+ * - `pre-existing` also found in the base branch reports.
+ * - `suppressed` found in the baseline.
+ * - `exported` not reported, exported for another job to aggregate.
+ */
+export type FindingStatus =
+	| 'annotated'
+	| 'reviewed'
+	| 'commented'
+	| 'skipped'
+	| 'dropped'
+	| 'pre-existing'
+	| 'suppressed'
+	| 'exported';
+
+/** A finding in the findings output file. */
+export interface Finding {
+	level: AnnotationLevel;
+	message: string;
+	title?: string;
+	file?: string;
+	startLine?: number;
+	endLine?: number;
+	startColumn?: number;
+	endColumn?: number;
+	matcher?: string;
+	report?: string;
+	/** Original location if the file is not in the workspace. */
+	unresolvedLocation?: string;
+	/** Number of identical findings merged into this one. */
+	occurrences: number;
+	/** Labels of the jobs an aggregated finding was found in. */
+	jobs?: string[];
+	/** Set for a flaky test that failed before passing on a retry. */
+	flaky?: { attempts?: number };
+	/** Fingerprint of the finding, as used in the baseline. */
+	fingerprint: string;
+	/** Where the finding is in the PR diff, `null` outside a PR. */
+	diffScope: DiffScope | null;
+	/** Whether the finding is in a file changed in the PR, `null` outside a PR. */
+	inDiff: boolean | null;
+	status: FindingStatus;
+}
+
+/** The pull request findings were collected on. */
+interface PullRequestRef {
+	number: number;
+	headSha: string;
+}
+
+/** The findings output file, which can be aggregated by another job. */
+export interface FindingsOutput {
+	version: 1;
+	/** Label of the job that wrote the file. */
+	job: string;
+	/** The pull request the findings were collected on, to publish them from another workflow. */
+	pullRequest?: PullRequestRef;
+	/** Names of the matchers that found reports. */
+	matchers: string[];
+	findings: Finding[];
+}
+
+/** Write all findings with how they were reported to a JSON file. */
+async function writeFindingsOutput(
+	file: string,
+	job: string,
+	matchers: string[],
+	findings: { annotation: PendingAnnotation; status: FindingStatus }[],
+	changedFiles: Map<string, ChangedFile> | null,
+): Promise<void> {
+	const pr = github.context.payload.pull_request;
+	const output: FindingsOutput = {
+		version: 1,
+		job,
+		pullRequest: pr
+			? {
+					number: pr.number,
+					headSha: pr.head?.sha ?? github.context.sha,
+				}
+			: undefined,
+		matchers,
+		findings: findings.map(({ annotation, status }) => {
+			const { title, file, startLine, endLine, startColumn, endColumn } =
+				annotation.properties;
+			const diffScope =
+				changedFiles && !annotation.unresolvedLocation
+					? getDiffScope(annotation, changedFiles)
+					: null;
+			return {
+				level: annotation.level,
+				message: annotation.message,
+				title,
+				file,
+				startLine,
+				endLine,
+				startColumn,
+				endColumn,
+				matcher: annotation.matcher,
+				report: annotation.report,
+				unresolvedLocation: annotation.unresolvedLocation,
+				occurrences: annotation.occurrences ?? 1,
+				jobs: annotation.jobs,
+				flaky: annotation.flaky,
+				fingerprint: baselineFingerprint(annotation),
+				diffScope,
+				inDiff: diffScope && diffScope !== 'outsideDiff',
+				status,
+			};
+		}),
+	};
+	await writeFile(file, `${JSON.stringify(output, null, '\t')}\n`);
+	core.setOutput('findings-file', file);
+	core.info(`Wrote ${findings.length} finding(s) to ${file}.`);
+}
+
+/** Annotation levels in order of severity, with the counts they are checked against. */
+const failLevels = [
+	{ level: 'error', count: 'errors' },
+	{ level: 'warning', count: 'warnings' },
+	{ level: 'notice', count: 'notices' },
+] as const;
+
+/** Fail the step when the annotation counts exceed the configured thresholds. */
+function checkFailThresholds(counts: LevelCounts, config: Config): void {
+	const failOnIndex = failLevels.findIndex(
+		({ level }) => level === config.failOn,
+	);
+	const budgets: Record<keyof LevelCounts, number | undefined> = {
+		errors: config.maxErrors,
+		warnings: config.maxWarnings,
+		notices: undefined,
+	};
+	const exceeded: string[] = [];
+	for (const [index, { level, count }] of failLevels.entries()) {
+		// A budget overrides failOn, which allows no annotations of its levels.
+		const max = budgets[count] ?? (index <= failOnIndex ? 0 : undefined);
+		if (max === undefined || counts[count] <= max) continue;
+		exceeded.push(`${pluralize(counts[count], level)} (max ${max})`);
+	}
+	if (exceeded.length > 0) {
+		core.setFailed(
+			`Found ${exceeded.join(', ')}, exceeding the configured thresholds.`,
+		);
+	}
 }
 
 /** The comment header used to identify bot comments for minimization. */
 export const COMMENT_HEADER = '## Report Annotations';
 
+/**
+ * Hidden marker embedded in bot comments with a comment key, followed by the
+ * URI encoded key. Comments are only minimized or updated by invocations with
+ * the same key.
+ */
+const COMMENT_KEY_MARKER = '<!-- report-annotate:key=';
+
+/** Identifies the bot comments of an invocation, see `Config.commentKey`. */
+interface CommentKey {
+	/** The comment key, empty for the default comments. */
+	key: string;
+	/** The comment header, including the comment key marker. */
+	header: string;
+}
+
+/** Resolve the comment key & header from the config. */
+function getCommentKey(config: Config): CommentKey {
+	const key =
+		config.commentKey === 'auto'
+			? config.jobLabel || github.context.job
+			: config.commentKey;
+	if (!key) return { key: '', header: COMMENT_HEADER };
+	const title = config.showCommentKey
+		? `${COMMENT_HEADER} (${htmlEscape(key)})`
+		: COMMENT_HEADER;
+	return {
+		key,
+		header: `${title}\n${COMMENT_KEY_MARKER}${encodeURIComponent(key)} -->`,
+	};
+}
+
 /**
  * Hidden marker embedded in all-clear comments. Used to detect that the
  * latest bot comment is already an all-clear so repeat clean runs don't
@@ -397,7 +1709,73 @@ export const COMMENT_HEADER = '## Report Annotations';
  * so wording can change without affecting the idempotency check.
  */
 const ALL_CLEAR_MARKER = '<!-- report-annotate:all-clear -->';
-const ALL_CLEAR_BODY = `${COMMENT_HEADER}\n${ALL_CLEAR_MARKER}\n\n✅ All issues resolved.\n`;
+const ALL_CLEAR_BODY = (header: string, findings: PendingAnnotation[]) =>
+	`${header}\n${ALL_CLEAR_MARKER}\n${findingsMarker(findings)}\n\n✅ All issues resolved.\n`;
+
+/**
+ * Hidden marker embedded in summary and all-clear comments, followed by the
+ * ids of the current findings. Read back on the next run to show the findings
+ * that are new or fixed since.
+ */
+const FINDINGS_MARKER = '<!-- report-annotate:findings';
+
+/** Compact id of a finding: the level initial and a line independent fingerprint. */
+function findingId(annotation: PendingAnnotation): string {
+	return `${annotation.level[0]}${baselineFingerprint(annotation).slice(0, 8)}`;
+}
+
+/** Maximum number of finding ids stored, keeping comments below GitHub's size limit. */
+const MAX_FINDING_IDS = 2000;
+
+/** Build the findings marker for the annotations, empty if there are too many. */
+function findingsMarker(annotations: PendingAnnotation[]): string {
+	if (annotations.length > MAX_FINDING_IDS) return '';
+	return `${FINDINGS_MARKER} ${annotations.map(findingId).join(',')} -->`;
+}
+
+/** Parse the finding ids of the findings marker, if the comment has one. */
+function parseFindingsMarker(body: string): string[] | undefined {
+	const start = body.indexOf(FINDINGS_MARKER);
+	if (start === -1) return undefined;
+	const end = body.indexOf('-->', start);
+	return body
+		.slice(start + FINDINGS_MARKER.length, end)
+		.split(',')
+		.map(id => id.trim())
+		.filter(Boolean);
+}
+
+/** Findings new or fixed since the previous run. */
+interface FindingChanges {
+	added: PendingAnnotation[];
+	fixed: LevelCounts;
+}
+
+/** Compare the annotations with the finding ids of the previous run. */
+function compareFindings(
+	annotations: PendingAnnotation[],
+	previous: string[],
+): FindingChanges {
+	const remaining = new Map<string, number>();
+	for (const id of previous) remaining.set(id, (remaining.get(id) ?? 0) + 1);
+	const added = annotations.filter(annotation => {
+		const id = findingId(annotation);
+		const count = remaining.get(id) ?? 0;
+		if (count === 0) return true;
+		remaining.set(id, count - 1);
+		return false;
+	});
+	const fixed: LevelCounts = { errors: 0, warnings: 0, notices: 0 };
+	const levels: Record<string, keyof LevelCounts> = {
+		e: 'errors',
+		w: 'warnings',
+		n: 'notices',
+	};
+	for (const [id, count] of remaining) {
+		if (levels[id[0]]) fixed[levels[id[0]]] += count;
+	}
+	return { added, fixed };
+}
 
 /**
  * Hidden marker embedded in no-reports-found warning comments. Used to
@@ -417,32 +1795,76 @@ function htmlEscape(text: string): string {
 		.replace(/</g, '&lt;')
 		.replace(/>/g, '&gt;')
 		.replace(/"/g, '&quot;')
-		.replace(/'/g, '&#39;');
+		.replace(/'/g, '&#39;')
+		.replace(/`/g, '&#96;');
 }
 
 /** Build the PR warning body shown when none of the configured reports exist. */
-const NO_REPORTS_FOUND_BODY = (reports: string[]) =>
-	`${COMMENT_HEADER}\n${NO_REPORTS_FOUND_MARKER}\n\n⚠️ No configured report files were found.\n\n` +
+const NO_REPORTS_FOUND_BODY = (header: string, reports: string[]) =>
+	`${header}\n${NO_REPORTS_FOUND_MARKER}\n\n⚠️ No configured report files were found.\n\n` +
 	`Report Annotate could not find any files matching the configured report patterns. ` +
 	`This can happen when an earlier workflow step failed before generating reports, or when reports were written to a different path.\n\n` +
 	`Configured reports:\n${reports.map(report => `- <code>${htmlEscape(report)}</code>`).join('\n')}`;
 
-interface SummaryCommentParams {
+/** PR comment sections for annotations that are only commented, by diff scope. */
+const diffScopeSections: Record<
+	DiffScope,
+	{ heading: string; description: string }
+> = {
+	changedLines: {
+		heading: 'Annotations on Changed Lines',
+		description: 'The following annotations target lines changed in this PR:',
+	},
+	unchangedLines: {
+		heading: 'Annotations on Unchanged Lines',
+		description:
+			"The following annotations target lines of changed files that this PR doesn't modify:",
+	},
+	outsideDiff: {
+		heading: 'Annotations Outside PR Diff',
+		description:
+			"The following annotations target files not included in this PR's changes:",
+	},
+};
+
+/** The annotations summarized in the PR comment & job summary. */
+interface SummarySections {
+	/** Findings new or fixed since the previous run, if it is known. */
+	changes?: FindingChanges;
+	/** Annotations also found in the base reports. */
+	preExisting: PendingAnnotation[];
 	allErrors: PendingAnnotation[];
 	skippedErrors: PendingAnnotation[];
 	skippedWarnings: PendingAnnotation[];
 	skippedNotices: PendingAnnotation[];
-	outOfDiffAnnotations: PendingAnnotation[];
+	commentedAnnotations: Record<DiffScope, PendingAnnotation[]>;
+	/** Annotations whose file is not in the workspace. */
+	unresolved: PendingAnnotation[];
+	/** Tests that failed before passing on a retry. */
+	flaky: PendingAnnotation[];
+	/** Test suite results to list, empty unless `testResults` is enabled. */
+	testSuites: TestSuiteResult[];
+	/** The slowest tests, empty unless `slowTestThreshold` is set. */
+	slowTests: TestCaseResult[];
+	slowTestThreshold: number;
 	maxPerType: number;
-	totalCounts: { errors: number; warnings: number; notices: number };
+	totalCounts: LevelCounts;
+}
+
+interface SummaryCommentParams extends SummarySections {
+	/** The findings stored in the comment for the next run. */
+	findings: PendingAnnotation[];
+	commentKey: CommentKey;
 	commentMethod: CommentMethod;
+	/** The previous bot comments, fetched if not given. */
+	botComments?: BotComment[];
 	octokit: ReturnType<typeof github.getOctokit> | null;
 	owner: string;
 	repo: string;
 	pullNumber: number;
 }
 
-/** Create a PR comment summarizing errors, out-of-diff, and skipped annotations. */
+/** Create a PR comment summarizing errors, commented, and skipped annotations. */
 async function createSummaryComment(
 	params: SummaryCommentParams,
 ): Promise<void> {
@@ -457,121 +1879,788 @@ async function createSummaryComment(
 		github.getOctokit(core.getInput('token') || process.env.GITHUB_TOKEN!);
 	const { owner, repo, pullNumber } = params;
 	const diffBaseUrl = `https://github.com/${owner}/${repo}/pull/${pullNumber}/files`;
+
+	let commentBody = `${params.commentKey.header}\n${findingsMarker(params.findings)}\n\n`;
+	commentBody += generateSummaryLine(params.totalCounts, params.changes);
+	commentBody += generateSummarySections(params, diffBaseUrl);
+
+	try {
+		if (params.commentMethod === 'update') {
+			await updateOrCreateComment(
+				octokit,
+				owner,
+				repo,
+				pullNumber,
+				params.commentKey.key,
+				commentBody,
+				params.botComments,
+			);
+		} else {
+			await octokit.rest.issues.createComment({
+				owner,
+				repo,
+				issue_number: pullNumber,
+				body: commentBody,
+			});
+		}
+		core.info('Created PR comment with annotation summary.');
+	} catch (error) {
+		core.error(`Failed to create PR comment: ${error}`);
+	}
+}
+
+/** The blob view base URL of the PR head or the commit being built. */
+function getBlobBaseUrl(): string {
+	const { owner, repo } = github.context.repo;
 	const sha =
-		github.context.payload.pull_request.head?.sha ?? github.context.sha;
-	const blobBaseUrl = `https://github.com/${owner}/${repo}/blob/${sha}`;
-
-	let commentBody = `${COMMENT_HEADER}\n\n`;
-
-	// Build summary line, omitting types with 0 count
-	const summaryParts: string[] = [];
-	if (params.totalCounts.errors > 0)
-		summaryParts.push(`❌ ${pluralize(params.totalCounts.errors, 'error')}`);
-	if (params.totalCounts.warnings > 0)
-		summaryParts.push(
-			`⚠️ ${pluralize(params.totalCounts.warnings, 'warning')}`,
+		github.context.payload.pull_request?.head?.sha ?? github.context.sha;
+	return `https://github.com/${owner}/${repo}/blob/${sha}`;
+}
+
+/** Generate the summary line with the counts per level, if any. */
+function generateSummaryLine(
+	totalCounts: LevelCounts,
+	changes?: FindingChanges,
+): string {
+	const summaryParts = formatLevelCounts(totalCounts);
+	if (summaryParts.length === 0) return '';
+	const fixed = Object.values(changes?.fixed ?? {}).reduce((a, b) => a + b, 0);
+	const delta = changes
+		? ` (${changes.added.length} new, ${fixed} fixed since last run)`
+		: '';
+	return `**Summary:** Found ${summaryParts.join(', ')}${delta}.\n\n`;
+}
+
+/**
+ * Generate the change, error, commented, skipped and pre-existing annotation
+ * sections. Annotations link to the PR diff, or to the blob view when there is
+ * no PR.
+ */
+function generateSummarySections(
+	params: SummarySections,
+	diffBaseUrl?: string,
+): string {
+	const blobBaseUrl = getBlobBaseUrl();
+	const diffSection = (levelName: string, annotations: PendingAnnotation[]) =>
+		diffBaseUrl
+			? generateAnnotationSection(levelName, annotations, diffBaseUrl)
+			: generateBlobAnnotationSection(levelName, annotations, blobBaseUrl);
+	let body = generateTestResultsSection(params.testSuites);
+	body += generateSlowTestsSection(
+		params.slowTests,
+		params.slowTestThreshold,
+		blobBaseUrl,
+	);
+
+	// Sections: Findings new or fixed since the previous run
+	if (params.changes?.added.length) {
+		const { added } = params.changes;
+		body += `### New Since Last Run\n\n`;
+		body += diffSection(
+			'CAUTION',
+			added.filter(a => a.level === 'error'),
+		);
+		body += diffSection(
+			'WARNING',
+			added.filter(a => a.level === 'warning'),
+		);
+		body += diffSection(
+			'NOTE',
+			added.filter(a => a.level === 'notice'),
+		);
+	}
+	const fixedParts = formatLevelCounts(
+		params.changes?.fixed ?? { errors: 0, warnings: 0, notices: 0 },
+	);
+	if (fixedParts.length > 0) {
+		body += `### Fixed Since Last Run\n\n`;
+		body += `✅ ${fixedParts.join(', ')} fixed since the last run.\n\n`;
+	}
+
+	// Track error files already shown in the allErrors section to avoid duplication in skipped
+	const shownErrorKeys = new Set<string>();
+
+	// Section: All errors (always shown when alwaysCommentErrors is enabled)
+	if (params.allErrors.length > 0) {
+		for (const e of params.allErrors) {
+			shownErrorKeys.add(annotationKey(e));
+		}
+		body += diffSection('CAUTION', params.allErrors);
+	}
+
+	// Sections: Annotations only listed in the comment, by diff scope
+	for (const [scope, annotations] of Object.entries(
+		params.commentedAnnotations,
+	) as [DiffScope, PendingAnnotation[]][]) {
+		if (annotations.length === 0) continue;
+		const { heading, description } = diffScopeSections[scope];
+		body += `### ${heading}\n\n`;
+		body += `${description}\n\n`;
+		body += generateBlobAnnotationSection(
+			'CAUTION',
+			annotations.filter(a => a.level === 'error'),
+			blobBaseUrl,
+		);
+		body += generateBlobAnnotationSection(
+			'WARNING',
+			annotations.filter(a => a.level === 'warning'),
+			blobBaseUrl,
+		);
+		body += generateBlobAnnotationSection(
+			'NOTE',
+			annotations.filter(a => a.level === 'notice'),
+			blobBaseUrl,
+		);
+	}
+
+	// Section: Annotations on files missing from the workspace
+	if (params.unresolved.length > 0) {
+		body += `### Unresolved Locations\n\n`;
+		body += `The following annotations refer to files that do not exist in the workspace:\n\n`;
+		body += generateBlobAnnotationSection(
+			'CAUTION',
+			params.unresolved.filter(a => a.level === 'error'),
+			blobBaseUrl,
+		);
+		body += generateBlobAnnotationSection(
+			'WARNING',
+			params.unresolved.filter(a => a.level === 'warning'),
+			blobBaseUrl,
+		);
+		body += generateBlobAnnotationSection(
+			'NOTE',
+			params.unresolved.filter(a => a.level === 'notice'),
+			blobBaseUrl,
+		);
+	}
+
+	// Section: Tests that passed on a retry
+	if (params.flaky.length > 0) {
+		body += `### Flaky Tests\n\n`;
+		body += `The following tests failed before passing on a retry, they are not counted as errors:\n\n`;
+		body += '| Test | Attempts | Failure |\n';
+		body += '| --- | ---: | --- |\n';
+		for (const annotation of params.flaky) {
+			const { file, startLine, title } = annotation.properties;
+			const name = tableCell(title || file || 'Unknown test');
+			const test = file
+				? `[${name}](${blobBaseUrl}/${encodeFilePath(file)}${startLine ? `#L${startLine}` : ''})`
+				: name;
+			const failure = tableCell(annotation.message.split('\n')[0]);
+			body += `| ${test} | ${annotation.flaky?.attempts ?? '?'} | ${failure} |\n`;
+		}
+		body += '\n';
+	}
+
+	// Section: Skipped annotations (over limit), excluding errors already shown in allErrors
+	const dedupedSkippedErrors = params.skippedErrors.filter(
+		e => !shownErrorKeys.has(annotationKey(e)),
+	);
+	const totalSkipped =
+		dedupedSkippedErrors.length +
+		params.skippedWarnings.length +
+		params.skippedNotices.length;
+	if (totalSkipped > 0) {
+		body += `### Skipped Annotations\n\n`;
+		body += `The maximum number of annotations per type (${params.maxPerType}) was reached. Here are the additional annotations that were not displayed:\n\n`;
+		body += diffSection('CAUTION', dedupedSkippedErrors);
+		body += diffSection('WARNING', params.skippedWarnings);
+		body += diffSection('NOTE', params.skippedNotices);
+	}
+
+	// Section: Pre-existing annotations, collapsed as they are not introduced by the PR
+	if (params.preExisting.length > 0) {
+		body += `### Pre-existing Annotations\n\n`;
+		body += `The following annotations also exist in the base branch reports:\n\n`;
+		body += generateBlobAnnotationSection(
+			'CAUTION',
+			params.preExisting.filter(a => a.level === 'error'),
+			blobBaseUrl,
+		);
+		body += generateBlobAnnotationSection(
+			'WARNING',
+			params.preExisting.filter(a => a.level === 'warning'),
+			blobBaseUrl,
+		);
+		body += generateBlobAnnotationSection(
+			'NOTE',
+			params.preExisting.filter(a => a.level === 'notice'),
+			blobBaseUrl,
+		);
+	}
+	return body;
+}
+
+/** Maximum number of test suites listed in the test results table. */
+const MAX_TEST_SUITE_ROWS = 50;
+
+/** Sum the results of the test suites, rounding the duration to milliseconds. */
+function sumTestSuites(
+	suites: TestSuiteResult[],
+): Pick<
+	TestSuiteResult,
+	'tests' | 'passed' | 'failed' | 'skipped' | 'duration'
+> {
+	const totals = { tests: 0, passed: 0, failed: 0, skipped: 0, duration: 0 };
+	for (const suite of suites) {
+		totals.tests += suite.tests;
+		totals.passed += suite.passed;
+		totals.failed += suite.failed;
+		totals.skipped += suite.skipped;
+		totals.duration += suite.duration;
+	}
+	totals.duration = Math.round(totals.duration * 1000) / 1000;
+	return totals;
+}
+
+/** Format a duration in seconds e.g. `1m 5.2s` */
+function formatDuration(seconds: number): string {
+	const minutes = Math.floor(seconds / 60);
+	const rest = `${Math.round((seconds % 60) * 10) / 10}s`;
+	return minutes > 0 ? `${minutes}m ${rest}` : rest;
+}
+
+/** Generate the test results section with the totals and a row per suite. */
+function generateTestResultsSection(suites: TestSuiteResult[]): string {
+	if (suites.length === 0) return '';
+	const totals = sumTestSuites(suites);
+	let body = '### Test Results\n\n';
+	body += `${totals.failed > 0 ? '❌' : '✅'} ${totals.passed} passed, ${totals.failed} failed and ${totals.skipped} skipped of ${pluralize(totals.tests, 'test')} in ${formatDuration(totals.duration)}.\n\n`;
+	body += '| Suite | Tests | Passed | Failed | Skipped | Duration |\n';
+	body += '| --- | ---: | ---: | ---: | ---: | ---: |\n';
+	// List the failed suites first, as the table is cut for large test runs.
+	const rows = [...suites].sort(
+		(a, b) => Number(b.failed > 0) - Number(a.failed > 0),
+	);
+	for (const suite of rows.slice(0, MAX_TEST_SUITE_ROWS)) {
+		const icon = suite.failed > 0 ? '❌' : '✅';
+		body += `| ${icon} ${tableCell(suite.name)} | ${suite.tests} | ${suite.passed} | ${suite.failed} | ${suite.skipped} | ${formatDuration(suite.duration)} |\n`;
+	}
+	if (rows.length > MAX_TEST_SUITE_ROWS) {
+		body += `\n_...and ${pluralize(rows.length - MAX_TEST_SUITE_ROWS, 'more suite')}._\n`;
+	}
+	return body + '\n';
+}
+
+/** Generate the slowest tests section, marking the tests over the threshold. */
+function generateSlowTestsSection(
+	tests: TestCaseResult[],
+	threshold: number,
+	blobBaseUrl: string,
+): string {
+	if (tests.length === 0) return '';
+	const slowCount = tests.filter(test => test.duration > threshold).length;
+	let body = '### Slowest Tests\n\n';
+	body += slowCount
+		? `${pluralize(slowCount, 'test')} took longer than ${formatDuration(threshold)}.\n\n`
+		: `No tests took longer than ${formatDuration(threshold)}.\n\n`;
+	body += '| Test | Suite | Duration |\n';
+	body += '| --- | --- | ---: |\n';
+	for (const test of tests) {
+		const icon = test.duration > threshold ? '🐢 ' : '';
+		const name = tableCell(test.name);
+		const link = test.file
+			? `[${name}](${blobBaseUrl}/${encodeFilePath(test.file)}${test.line ? `#L${test.line}` : ''})`
+			: name;
+		body += `| ${icon}${link} | ${tableCell(test.suite)} | ${formatDuration(test.duration)} |\n`;
+	}
+	return body + '\n';
+}
+
+/** Annotation level names used in the job summary tables. */
+const levelLabels: Record<AnnotationLevel, string> = {
+	error: '❌ error',
+	warning: '⚠️ warning',
+	notice: 'ℹ️ notice',
+	ignore: 'ignore',
+};
+
+/** Escape text for a markdown table cell. */
+function tableCell(text: string): string {
+	return neutralizeMentions(text)
+		.replace(/\|/g, '\\|')
+		.replace(/\r?\n/g, '<br>');
+}
+
+/**
+ * Write a job summary with the counts per matcher, a table of all annotations
+ * grouped by file and the same sections as the PR comment.
+ */
+async function writeJobSummary(
+	header: string,
+	sections: SummarySections,
+	annotations: PendingAnnotation[],
+	matcherNames: string[],
+	diffBaseUrl?: string,
+): Promise<void> {
+	const blobBaseUrl = getBlobBaseUrl();
+	let body = `${header}\n\n`;
+	if (matcherNames.length === 0) {
+		body += '⚠️ No configured report files were found.\n';
+	} else if (annotations.length === 0) {
+		body += '✅ No issues found.\n\n';
+		body += generateTestResultsSection(sections.testSuites);
+		body += generateSlowTestsSection(
+			sections.slowTests,
+			sections.slowTestThreshold,
+			blobBaseUrl,
+		);
+	} else {
+		body += generateSummaryLine(sections.totalCounts);
+
+		body += '### Results by Matcher\n\n';
+		body += '| Matcher | Errors | Warnings | Notices |\n';
+		body += '| --- | ---: | ---: | ---: |\n';
+		for (const matcher of matcherNames) {
+			const counts = countLevels(
+				annotations.filter(a => a.matcher === matcher),
+			);
+			body += `| ${matcher} | ${counts.errors} | ${counts.warnings} | ${counts.notices} |\n`;
+		}
+		body += '\n';
+
+		const byFile = new Map<string, PendingAnnotation[]>();
+		for (const annotation of annotations) {
+			const file = annotation.properties.file ?? '';
+			byFile.set(file, [...(byFile.get(file) ?? []), annotation]);
+		}
+		body += '### Findings by File\n\n';
+		for (const [file, fileAnnotations] of [...byFile].sort(([a], [b]) =>
+			a.localeCompare(b),
+		)) {
+			const counts = formatLevelCounts(countLevels(fileAnnotations));
+			body += `<details>\n<summary>${file ? htmlEscape(file) : 'Other'} (${counts.join(', ')})</summary>\n\n`;
+			body += '| Line | Level | Title | Message |\n';
+			body += '| ---: | --- | --- | --- |\n';
+			for (const annotation of fileAnnotations.sort(
+				(a, b) => (a.properties.startLine ?? 0) - (b.properties.startLine ?? 0),
+			)) {
+				const { startLine, title } = annotation.properties;
+				const line =
+					file && startLine
+						? `[${startLine}](${blobBaseUrl}/${encodeFilePath(file)}#L${startLine})`
+						: '';
+				body += `| ${line} | ${levelLabels[annotation.level]} | ${tableCell(title ?? '')} | ${tableCell(displayMessage(annotation))} |\n`;
+			}
+			body += '\n</details>\n\n';
+		}
+
+		body += generateSummarySections(sections, diffBaseUrl);
+	}
+
+	try {
+		await core.summary.addRaw(body).write();
+		core.info('Wrote job summary.');
+	} catch (error) {
+		core.warning(`Failed to write job summary: ${error}`);
+	}
+}
+
+/** Number of annotations per level. */
+interface LevelCounts {
+	errors: number;
+	warnings: number;
+	notices: number;
+}
+
+/** Count the annotations per level. */
+function countLevels(annotations: PendingAnnotation[]): LevelCounts {
+	return {
+		errors: annotations.filter(a => a.level === 'error').length,
+		warnings: annotations.filter(a => a.level === 'warning').length,
+		notices: annotations.filter(a => a.level === 'notice').length,
+	};
+}
+
+/** Format the counts per level for summaries, omitting types with 0 count. */
+function formatLevelCounts(counts: LevelCounts): string[] {
+	const parts: string[] = [];
+	if (counts.errors > 0) parts.push(`❌ ${pluralize(counts.errors, 'error')}`);
+	if (counts.warnings > 0)
+		parts.push(`⚠️ ${pluralize(counts.warnings, 'warning')}`);
+	if (counts.notices > 0)
+		parts.push(`ℹ️ ${pluralize(counts.notices, 'notice')}`);
+	return parts;
+}
+
+/** Maximum number of annotations per Checks API request. */
+const CHECK_RUN_BATCH_SIZE = 50;
+
+/** Map annotation levels to Checks API annotation levels. */
+const checkAnnotationLevels = {
+	error: 'failure',
+	warning: 'warning',
+	notice: 'notice',
+} as const;
+
+/**
+ * Create check run(s) for the annotations: one for all matchers ('single') or
+ * one per matcher ('per-matcher'). The counts and conclusion are based on all
+ * annotations, while only `annotationsToCreate` are uploaded.
+ */
+async function createCheckRuns(
+	octokit: ReturnType<typeof github.getOctokit>,
+	allAnnotations: PendingAnnotation[],
+	annotationsToCreate: PendingAnnotation[],
+	matcherNames: string[],
+	config: Config,
+): Promise<void> {
+	if (config.checkRun === 'single') {
+		await createCheckRun(
+			octokit,
+			config.checkName,
+			allAnnotations,
+			annotationsToCreate,
+		);
+		return;
+	}
+	for (const matcher of matcherNames) {
+		await createCheckRun(
+			octokit,
+			`${config.checkName} (${matcher})`,
+			allAnnotations.filter(a => a.matcher === matcher),
+			annotationsToCreate.filter(a => a.matcher === matcher),
 		);
-	if (params.totalCounts.notices > 0)
-		summaryParts.push(`ℹ️ ${pluralize(params.totalCounts.notices, 'notice')}`);
-	if (summaryParts.length > 0) {
-		commentBody += `**Summary:** Found ${summaryParts.join(', ')}.\n\n`;
 	}
+}
 
-	// Track error files already shown in the allErrors section to avoid duplication in skipped
-	const shownErrorKeys = new Set<string>();
+/** Create a check run and upload its annotations in batches. */
+async function createCheckRun(
+	octokit: ReturnType<typeof github.getOctokit>,
+	name: string,
+	allAnnotations: PendingAnnotation[],
+	annotationsToCreate: PendingAnnotation[],
+): Promise<void> {
+	const { owner, repo } = github.context.repo;
+	const headSha =
+		github.context.payload.pull_request?.head?.sha ?? github.context.sha;
+	const counts = countLevels(allAnnotations);
+	const summaryParts = formatLevelCounts(counts);
+	const output = {
+		title:
+			summaryParts.length > 0 ? summaryParts.join(', ') : 'No issues found',
+		summary:
+			summaryParts.length > 0
+				? `**Summary:** Found ${summaryParts.join(', ')}.`
+				: '✅ No issues found.',
+	};
+	const conclusion =
+		counts.errors > 0 ? 'failure' : counts.warnings > 0 ? 'neutral' : 'success';
+	// The Checks API requires a file for every annotation.
+	const checkAnnotations = annotationsToCreate
+		.filter(a => a.properties.file)
+		.map(annotation => {
+			const { level, properties } = annotation;
+			const startLine = properties.startLine ?? 1;
+			const endLine = properties.endLine ?? startLine;
+			// Columns are only allowed on single line annotations.
+			const columns =
+				startLine === endLine && properties.startColumn
+					? {
+							start_column: properties.startColumn,
+							end_column: properties.endColumn ?? properties.startColumn,
+						}
+					: {};
+			return {
+				path: properties.file!,
+				start_line: startLine,
+				end_line: endLine,
+				...columns,
+				annotation_level:
+					checkAnnotationLevels[level as keyof typeof checkAnnotationLevels],
+				message: displayMessage(annotation),
+				title: properties.title || undefined,
+			};
+		});
 
-	// Section: All errors (always shown when alwaysCommentErrors is enabled)
-	if (params.allErrors.length > 0) {
-		for (const e of params.allErrors) {
-			shownErrorKeys.add(annotationKey(e));
+	try {
+		const { data: checkRun } = await octokit.rest.checks.create({
+			owner,
+			repo,
+			name,
+			head_sha: headSha,
+			status: 'in_progress',
+			output,
+		});
+		for (let i = 0; i < checkAnnotations.length; i += CHECK_RUN_BATCH_SIZE) {
+			await octokit.rest.checks.update({
+				owner,
+				repo,
+				check_run_id: checkRun.id,
+				output: {
+					...output,
+					annotations: checkAnnotations.slice(i, i + CHECK_RUN_BATCH_SIZE),
+				},
+			});
 		}
-		commentBody += generateAnnotationSection(
-			'CAUTION',
-			params.allErrors,
-			diffBaseUrl,
+		await octokit.rest.checks.update({
+			owner,
+			repo,
+			check_run_id: checkRun.id,
+			status: 'completed',
+			conclusion,
+			completed_at: new Date().toISOString(),
+			output,
+		});
+		core.info(
+			`Created check run ${name} with ${pluralize(checkAnnotations.length, 'annotation')}.`,
 		);
+	} catch (error) {
+		core.error(`Failed to create check run ${name}: ${error}`);
 	}
+}
 
-	// Section: Out-of-diff annotations
-	if (params.outOfDiffAnnotations.length > 0) {
-		const outOfDiffErrors = params.outOfDiffAnnotations.filter(
-			a => a.level === 'error',
-		);
-		const outOfDiffWarnings = params.outOfDiffAnnotations.filter(
-			a => a.level === 'warning',
-		);
-		const outOfDiffNotices = params.outOfDiffAnnotations.filter(
-			a => a.level === 'notice',
-		);
+/**
+ * Hidden marker embedded in review comments, followed by the fingerprint of
+ * the annotation. Used to skip findings that already have an open thread and
+ * to resolve threads of findings that have disappeared.
+ */
+const REVIEW_MARKER = '<!-- report-annotate:review';
 
-		commentBody += `### Annotations Outside PR Diff\n\n`;
-		commentBody += `The following annotations target files not included in this PR's changes:\n\n`;
-		commentBody += generateBlobAnnotationSection(
-			'CAUTION',
-			outOfDiffErrors,
-			blobBaseUrl,
-		);
-		commentBody += generateBlobAnnotationSection(
-			'WARNING',
-			outOfDiffWarnings,
-			blobBaseUrl,
-		);
-		commentBody += generateBlobAnnotationSection(
-			'NOTE',
-			outOfDiffNotices,
-			blobBaseUrl,
-		);
-	}
+/** Emoji indicators for annotation levels in review comments. */
+const reviewLevelEmojis: Record<string, string> = {
+	error: '❌',
+	warning: '⚠️',
+	notice: 'ℹ️',
+};
 
-	// Section: Skipped annotations (over limit), excluding errors already shown in allErrors
-	const dedupedSkippedErrors = params.skippedErrors.filter(
-		e => !shownErrorKeys.has(annotationKey(e)),
-	);
-	const totalSkipped =
-		dedupedSkippedErrors.length +
-		params.skippedWarnings.length +
-		params.skippedNotices.length;
-	if (totalSkipped > 0) {
-		commentBody += `### Skipped Annotations\n\n`;
-		commentBody += `The maximum number of annotations per type (${params.maxPerType}) was reached. Here are the additional annotations that were not displayed:\n\n`;
-		commentBody += generateAnnotationSection(
-			'CAUTION',
-			dedupedSkippedErrors,
-			diffBaseUrl,
-		);
-		commentBody += generateAnnotationSection(
-			'WARNING',
-			params.skippedWarnings,
-			diffBaseUrl,
-		);
-		commentBody += generateAnnotationSection(
-			'NOTE',
-			params.skippedNotices,
-			diffBaseUrl,
+/** Find the range of the annotation that can be commented in the diff. */
+function findReviewRange(
+	annotation: PendingAnnotation,
+	changedFiles: Map<string, ChangedFile>,
+): LineRange | undefined {
+	const { file, startLine = 1, endLine } = annotation.properties;
+	const hunk = changedFiles
+		.get(file!)
+		?.hunks.find(h => startLine >= h.start && startLine <= h.end);
+	if (!hunk) return undefined;
+	// Multi-line comments must stay within the same hunk.
+	const end =
+		endLine && endLine > startLine && endLine <= hunk.end ? endLine : startLine;
+	return { start: startLine, end };
+}
+
+/**
+ * Create a suggestion of the lines changed by the autofix of the annotation,
+ * if they are within a hunk of the diff. The offsets are resolved against the
+ * file in the workspace.
+ */
+async function createSuggestion(
+	annotation: PendingAnnotation,
+	changedFiles: Map<string, ChangedFile>,
+): Promise<(LineRange & { text: string }) | undefined> {
+	const { fix } = annotation;
+	const { file } = annotation.properties;
+	if (!fix || !file || fix.start > fix.end) return undefined;
+	let source: string;
+	try {
+		source = await readFile(
+			join(process.env.GITHUB_WORKSPACE || process.cwd(), file),
+			'utf8',
 		);
+	} catch {
+		return undefined;
 	}
+	if (fix.end > source.length) return undefined;
+	const lineOf = (offset: number) => source.slice(0, offset).split('\n').length;
+	const start = lineOf(fix.start);
+	const end = lineOf(fix.end);
+	const hunk = changedFiles
+		.get(file)
+		?.hunks.find(h => start >= h.start && end <= h.end);
+	if (!hunk) return undefined;
+	const lineStart = fix.start && source.lastIndexOf('\n', fix.start - 1) + 1;
+	const lineEnd = source.indexOf('\n', fix.end);
+	const text =
+		source.slice(lineStart, fix.start) +
+		fix.text +
+		source.slice(fix.end, lineEnd === -1 ? undefined : lineEnd);
+	return { start, end, text: text.replace(/\r$/gm, '') };
+}
 
+/**
+ * Post the annotations that target lines in the diff as a PR review and
+ * resolve review threads of findings from previous runs that have disappeared.
+ * Returns the annotations that are covered by the review.
+ */
+async function createReview(
+	octokit: ReturnType<typeof github.getOctokit>,
+	owner: string,
+	repo: string,
+	pullNumber: number,
+	commentKey: CommentKey,
+	annotations: PendingAnnotation[],
+	changedFiles: Map<string, ChangedFile>,
+): Promise<Set<PendingAnnotation>> {
+	const reviewed = new Set<PendingAnnotation>();
 	try {
-		if (params.commentMethod === 'update') {
-			await updateOrCreateComment(
-				octokit,
-				owner,
-				repo,
-				pullNumber,
-				commentBody,
+		const threads = await fetchBotReviewThreads(
+			octokit,
+			owner,
+			repo,
+			pullNumber,
+			commentKey.key,
+		);
+		const comments: {
+			path: string;
+			line: number;
+			start_line?: number;
+			side: 'RIGHT';
+			body: string;
+		}[] = [];
+		const fingerprints = new Set<string>();
+		for (const annotation of annotations) {
+			const range = annotation.properties.file
+				? findReviewRange(annotation, changedFiles)
+				: undefined;
+			if (!range) continue;
+			reviewed.add(annotation);
+			const fingerprint = createHash('sha256')
+				.update(annotationKey(annotation))
+				.digest('hex')
+				.slice(0, 16);
+			// Skip duplicates and findings that still have an open thread.
+			if (fingerprints.has(fingerprint)) continue;
+			fingerprints.add(fingerprint);
+			if (threads.some(t => !t.isResolved && t.fingerprint === fingerprint)) {
+				continue;
+			}
+			const { title } = annotation.properties;
+			const emoji = reviewLevelEmojis[annotation.level];
+			const message = neutralizeMentions(displayMessage(annotation));
+			// A suggestion replaces the commented lines, so comment on the fixed lines.
+			const suggestion = await createSuggestion(annotation, changedFiles);
+			const lines = suggestion ?? range;
+			comments.push({
+				path: annotation.properties.file!,
+				line: lines.end,
+				start_line: lines.end > lines.start ? lines.start : undefined,
+				side: 'RIGHT',
+				body:
+					`${emoji} ${title ? `**${neutralizeMentions(title)}**\n\n` : ''}${message}\n\n` +
+					(suggestion
+						? `\`\`\`suggestion\n${suggestion.text}\n\`\`\`\n\n`
+						: '') +
+					`${REVIEW_MARKER} ${fingerprint}${commentKey.key ? ` key=${encodeURIComponent(commentKey.key)}` : ''} -->`,
+			});
+		}
+
+		// Resolve threads of findings that are no longer reported.
+		for (const thread of threads) {
+			if (thread.isResolved || fingerprints.has(thread.fingerprint)) continue;
+			await octokit.graphql(
+				`
+				mutation ResolveReviewThread($input: ResolveReviewThreadInput!) {
+					resolveReviewThread(input: $input) {
+						thread {
+							isResolved
+						}
+					}
+				}
+			`,
+				{ input: { threadId: thread.id } },
 			);
-		} else {
-			await octokit.rest.issues.createComment({
+			core.debug(`Resolved review thread ${thread.id}`);
+		}
+
+		if (comments.length > 0) {
+			const summaryParts = formatLevelCounts(countLevels([...reviewed]));
+			await octokit.rest.pulls.createReview({
 				owner,
 				repo,
-				issue_number: pullNumber,
-				body: commentBody,
+				pull_number: pullNumber,
+				commit_id:
+					github.context.payload.pull_request?.head?.sha ?? github.context.sha,
+				event: 'COMMENT',
+				body: `${commentKey.header}\n\nFound ${summaryParts.join(', ')} on changed lines.`,
+				comments,
 			});
+			core.info(
+				`Created PR review with ${pluralize(comments.length, 'comment')}.`,
+			);
 		}
-		core.info('Created PR comment with annotation summary.');
 	} catch (error) {
-		core.error(`Failed to create PR comment: ${error}`);
+		// Fall back to the summary comment for everything.
+		core.warning(`Failed to create PR review: ${error}`);
+		reviewed.clear();
+	}
+	return reviewed;
+}
+
+interface BotReviewThread {
+	id: string;
+	isResolved: boolean;
+	fingerprint: string;
+}
+
+/** Fetch the review threads started by this action with the comment key on the PR (paginated). */
+async function fetchBotReviewThreads(
+	octokit: ReturnType<typeof github.getOctokit>,
+	owner: string,
+	repo: string,
+	pullNumber: number,
+	commentKey: string,
+): Promise<BotReviewThread[]> {
+	interface ReviewThreadsResponse {
+		repository: {
+			pullRequest: {
+				reviewThreads: {
+					nodes: {
+						id: string;
+						isResolved: boolean;
+						comments: { nodes: { body: string }[] };
+					}[];
+					pageInfo: { hasNextPage: boolean; endCursor: string | null };
+				};
+			};
+		};
+	}
+	const threads: BotReviewThread[] = [];
+	let cursor: string | null = null;
+	while (true) {
+		const response: ReviewThreadsResponse = await octokit.graphql(
+			`
+			query ReviewThreads($owner: String!, $repo: String!, $pullNumber: Int!, $cursor: String) {
+				repository(owner: $owner, name: $repo) {
+					pullRequest(number: $pullNumber) {
+						reviewThreads(first: 100, after: $cursor) {
+							nodes {
+								id
+								isResolved
+								comments(first: 1) {
+									nodes {
+										body
+									}
+								}
+							}
+							pageInfo {
+								hasNextPage
+								endCursor
+							}
+						}
+					}
+				}
+			}
+		`,
+			{ owner, repo, pullNumber, cursor },
+		);
+		const { nodes, pageInfo } = response.repository.pullRequest.reviewThreads;
+		for (const node of nodes) {
+			const body = node.comments.nodes[0]?.body ?? '';
+			const marker = body.indexOf(REVIEW_MARKER);
+			if (marker === -1) continue;
+			const [fingerprint, ...attributes] = body
+				.slice(marker + REVIEW_MARKER.length)
+				.trim()
+				.split(/\s+/);
+			const key = attributes.find(a => a.startsWith('key='))?.slice(4) ?? '';
+			if (key !== encodeURIComponent(commentKey)) continue;
+			threads.push({ id: node.id, isResolved: node.isResolved, fingerprint });
+		}
+		if (!pageInfo.hasNextPage) break;
+		cursor = pageInfo.endCursor;
 	}
+	return threads;
 }
 
 /** Minimize previous bot comments on the PR. */
@@ -580,11 +2669,13 @@ async function minimizePreviousBotComments(
 	owner: string,
 	repo: string,
 	pullNumber: number,
+	commentKey: string,
 	botComments?: BotComment[],
 ): Promise<void> {
 	try {
 		const comments =
-			botComments ?? (await fetchBotComments(octokit, owner, repo, pullNumber));
+			botComments ??
+			(await fetchBotComments(octokit, owner, repo, pullNumber, commentKey));
 
 		if (comments.length === 0) {
 			core.debug('No previous bot comments to minimize.');
@@ -628,10 +2719,13 @@ async function updateOrCreateComment(
 	owner: string,
 	repo: string,
 	pullNumber: number,
+	commentKey: string,
 	body: string,
+	botComments?: BotComment[],
 ): Promise<void> {
 	const botComment = (
-		await fetchBotComments(octokit, owner, repo, pullNumber)
+		botComments ??
+		(await fetchBotComments(octokit, owner, repo, pullNumber, commentKey))
 	).at(-1);
 
 	if (botComment) {
@@ -666,15 +2760,21 @@ async function postAllClearStatus(
 	owner: string,
 	repo: string,
 	pullNumber: number,
+	commentKey: CommentKey,
 	commentMethod: CommentMethod,
+	findings: PendingAnnotation[],
+	previousBotComments?: BotComment[],
 ): Promise<void> {
 	try {
-		const botComments = await fetchBotComments(
-			octokit,
-			owner,
-			repo,
-			pullNumber,
-		);
+		const botComments =
+			previousBotComments ??
+			(await fetchBotComments(
+				octokit,
+				owner,
+				repo,
+				pullNumber,
+				commentKey.key,
+			));
 		const latest = botComments.at(-1);
 		if (!latest) {
 			core.debug('No previous bot comment to clear.');
@@ -690,13 +2790,14 @@ async function postAllClearStatus(
 				owner,
 				repo,
 				pullNumber,
+				commentKey.key,
 				botComments,
 			);
 			await octokit.rest.issues.createComment({
 				owner,
 				repo,
 				issue_number: pullNumber,
-				body: ALL_CLEAR_BODY,
+				body: ALL_CLEAR_BODY(commentKey.header, findings),
 			});
 			core.info('Posted all-clear PR comment and minimized previous one(s).');
 		} else {
@@ -704,7 +2805,7 @@ async function postAllClearStatus(
 				owner,
 				repo,
 				comment_id: latest.id,
-				body: ALL_CLEAR_BODY,
+				body: ALL_CLEAR_BODY(commentKey.header, findings),
 			});
 			core.info(`Updated previous bot comment ${latest.id} to all-clear.`);
 		}
@@ -719,20 +2820,33 @@ async function postNoReportsFoundWarning(
 	owner: string,
 	repo: string,
 	pullNumber: number,
+	commentKey: CommentKey,
 	commentMethod: CommentMethod,
 	reports: string[],
+	previousBotComments?: BotComment[],
 ): Promise<void> {
 	try {
-		const body = NO_REPORTS_FOUND_BODY(reports);
+		const body = NO_REPORTS_FOUND_BODY(commentKey.header, reports);
 		if (commentMethod === 'update') {
-			await updateOrCreateComment(octokit, owner, repo, pullNumber, body);
-		} else {
-			const botComments = await fetchBotComments(
+			await updateOrCreateComment(
 				octokit,
 				owner,
 				repo,
 				pullNumber,
+				commentKey.key,
+				body,
+				previousBotComments,
 			);
+		} else {
+			const botComments =
+				previousBotComments ??
+				(await fetchBotComments(
+					octokit,
+					owner,
+					repo,
+					pullNumber,
+					commentKey.key,
+				));
 			const latest = botComments.at(-1);
 			if (latest?.body?.includes(NO_REPORTS_FOUND_MARKER)) {
 				core.debug(
@@ -745,6 +2859,7 @@ async function postNoReportsFoundWarning(
 				owner,
 				repo,
 				pullNumber,
+				commentKey.key,
 				botComments,
 			);
 			await octokit.rest.issues.createComment({
@@ -766,14 +2881,20 @@ interface BotComment {
 	id: number;
 	node_id: string;
 	body?: string;
+	/** The finding ids stored in the comment, see `FINDINGS_MARKER`. */
+	findings?: string[];
 }
 
-/** Fetch all bot comments authored by this action on the PR (paginated). */
+/**
+ * Fetch all bot comments authored by this action with the comment key on the
+ * PR (paginated). Without a key, only comments without a key are returned.
+ */
 async function fetchBotComments(
 	octokit: ReturnType<typeof github.getOctokit>,
 	owner: string,
 	repo: string,
 	pullNumber: number,
+	commentKey: string,
 ): Promise<BotComment[]> {
 	const allComments: BotComment[] = [];
 	let page = 1;
@@ -791,11 +2912,23 @@ async function fetchBotComments(
 		page++;
 	}
 
-	return allComments.filter(
-		c =>
-			c.body?.startsWith(COMMENT_HEADER) ||
-			c.body?.startsWith('## Skipped Annotations'),
-	);
+	const keyMarker = `${COMMENT_KEY_MARKER}${encodeURIComponent(commentKey)} -->`;
+	const botComments = allComments.filter(c => {
+		if (!c.body) return false;
+		if (commentKey) {
+			return c.body.startsWith(COMMENT_HEADER) && c.body.includes(keyMarker);
+		}
+		// Comments with a key belong to other invocations.
+		return (
+			(c.body.startsWith(COMMENT_HEADER) &&
+				!c.body.includes(COMMENT_KEY_MARKER)) ||
+			c.body.startsWith('## Skipped Annotations')
+		);
+	});
+	return botComments.map(c => ({
+		...c,
+		findings: parseFindingsMarker(c.body!),
+	}));
 }
 
 /** Generate a unique key for an annotation to support deduplication. */
@@ -829,6 +2962,20 @@ const levelEmojis: Record<string, string> = {
 	NOTE: 'ℹ️',
 };
 
+/**
+ * The message of an annotation with the jobs an aggregated finding was found
+ * in, or the number of merged duplicates.
+ */
+function displayMessage(annotation: PendingAnnotation): string {
+	if (annotation.jobs) {
+		return `${annotation.message} (from ${annotation.jobs.join(', ')})`;
+	}
+	if (annotation.occurrences && annotation.occurrences > 1) {
+		return `${annotation.message} (found ${annotation.occurrences} times)`;
+	}
+	return annotation.message;
+}
+
 /**
  * Neutralize GitHub @mentions in annotation messages to prevent unwanted notifications.
  * Handles usernames with hyphens and org/team mentions (e.g. @org/team-name).
@@ -856,7 +3003,7 @@ export function generateAnnotationSection(
 	const emoji = levelEmojis[levelName] ?? levelName;
 	let section = `<details>\n<summary>${emoji} ${levelName} (${annotations.length})</summary>\n\n`;
 	for (const annotation of annotations) {
-		const message = neutralizeMentions(annotation.message);
+		const message = neutralizeMentions(displayMessage(annotation));
 		let line = `- ${message}`;
 		if (annotation.properties.file && annotation.properties.startLine) {
 			const displayLocation = `${truncateFilePath(annotation.properties.file)}#L${annotation.properties.startLine}`;
@@ -881,7 +3028,7 @@ export function generateBlobAnnotationSection(
 	const emoji = levelEmojis[levelName] ?? levelName;
 	let section = `<details>\n<summary>${emoji} ${levelName} (${annotations.length})</summary>\n\n`;
 	for (const annotation of annotations) {
-		const message = neutralizeMentions(annotation.message);
+		const message = neutralizeMentions(displayMessage(annotation));
 		let line = `- ${message}`;
 		if (annotation.properties.file) {
 			const encodedPath = encodeFilePath(annotation.properties.file);
@@ -892,6 +3039,8 @@ export function generateBlobAnnotationSection(
 				? `${blobBaseUrl}/${encodedPath}#L${annotation.properties.startLine}`
 				: `${blobBaseUrl}/${encodedPath}`;
 			line = `- [${displayLocation}](${link}) ${message}`;
+		} else if (annotation.unresolvedLocation) {
+			line = `- <code>${htmlEscape(annotation.unresolvedLocation)}</code> ${message}`;
 		}
 		section += `${line}\n`;
 	}
@@ -931,6 +3080,29 @@ async function loadYamlConfig(): Promise<Partial<Config>> {
 	}
 }
 
+/** Load GitHub problem matcher files as `text` report matchers named after their owner. */
+async function loadProblemMatchers(
+	config: Config,
+): Promise<Record<string, ReportMatcher>> {
+	const reportMatchers: Record<string, ReportMatcher> = {};
+	const files = await globFiles(config.problemMatchers, config.ignore);
+	for (const file of files) {
+		try {
+			const { problemMatcher } = JSON.parse(await readFile(file, 'utf8')) as {
+				problemMatcher: ProblemMatcher[];
+			};
+			for (const matcher of problemMatcher) {
+				reportMatchers[matcher.owner] = fromProblemMatcher(matcher);
+				core.info(`Loaded problem matcher ${matcher.owner} from ${file}`);
+			}
+		} catch (error) {
+			core.error(`Failed to load problem matcher ${file}: ${error}`);
+			throw error;
+		}
+	}
+	return reportMatchers;
+}
+
 /** Load the action inputs and merge with the yaml & default config. */
 async function loadConfig(): Promise<Config> {
 	let customMatchers: Record<string, ReportMatcher> | undefined;
@@ -945,22 +3117,133 @@ async function loadConfig(): Promise<Config> {
 		alwaysCommentErrorsInput.trim() !== ''
 			? core.getBooleanInput('always-comment-errors')
 			: undefined;
+	const updateBaseline =
+		core.getInput('update-baseline').trim() !== ''
+			? core.getBooleanInput('update-baseline')
+			: undefined;
+	const jobSummary =
+		core.getInput('job-summary').trim() !== ''
+			? core.getBooleanInput('job-summary')
+			: undefined;
+	const testResults =
+		core.getInput('test-results').trim() !== ''
+			? core.getBooleanInput('test-results')
+			: undefined;
+	const validateLocations =
+		core.getInput('validate-locations').trim() !== ''
+			? core.getBooleanInput('validate-locations')
+			: undefined;
+	const modeInput = core.getInput('mode');
+	const mode: Mode | undefined =
+		modeInput === 'report' || modeInput === 'export' || modeInput === 'publish'
+			? modeInput
+			: undefined;
+	const deduplicateInput = core.getInput('deduplicate');
+	const deduplicate: Deduplicate | undefined =
+		deduplicateInput === 'none' ||
+		deduplicateInput === 'matcher' ||
+		deduplicateInput === 'all'
+			? deduplicateInput
+			: undefined;
+	const failOnInput = core.getInput('fail-on');
+	const failOn: FailOn | undefined =
+		failOnInput === 'error' ||
+		failOnInput === 'warning' ||
+		failOnInput === 'notice' ||
+		failOnInput === 'never'
+			? failOnInput
+			: undefined;
+	const failScopeInput = core.getInput('fail-scope');
+	const failScope: FailScope | undefined =
+		failScopeInput === 'all' ||
+		failScopeInput === 'changed-files' ||
+		failScopeInput === 'changed-lines'
+			? failScopeInput
+			: undefined;
+	const showCommentKeyInput = core.getInput('show-comment-key');
+	const showCommentKey =
+		showCommentKeyInput.trim() !== ''
+			? core.getBooleanInput('show-comment-key')
+			: undefined;
+	const checkRunInput = core.getInput('check-run');
+	const checkRun: CheckRunMode | undefined =
+		checkRunInput === 'none' ||
+		checkRunInput === 'single' ||
+		checkRunInput === 'per-matcher'
+			? checkRunInput
+			: undefined;
 	const commentMethodInput = core.getInput('comment-method');
 	const commentMethod: CommentMethod | undefined =
-		commentMethodInput === 'minimize' || commentMethodInput === 'update'
+		commentMethodInput === 'minimize' ||
+		commentMethodInput === 'update' ||
+		commentMethodInput === 'review'
 			? commentMethodInput
 			: undefined;
+	const diffHandling = (name: string): DiffHandling | undefined => {
+		const input = core.getInput(name);
+		return input === 'annotate' || input === 'comment' || input === 'drop'
+			? input
+			: undefined;
+	};
+	const numberInput = (
+		name: string,
+		expected: string,
+		pattern = /^\d+$/,
+	): number | undefined => {
+		const input = core.getInput(name).trim();
+		if (!input) return undefined;
+		if (!pattern.test(input)) {
+			throw new Error(`Invalid ${name} "${input}", expected ${expected}.`);
+		}
+		return Number(input);
+	};
 	const reports = core.getMultilineInput('reports');
 	const ignore = core.getMultilineInput('ignore');
+	const baseReports = core.getMultilineInput('base-reports');
+	const aggregate = core.getMultilineInput('aggregate');
+	const problemMatchers = core.getMultilineInput('problem-matchers');
 	const inputs: Partial<Config> = {
 		reports: reports.length > 0 ? reports : undefined,
 		ignore: ignore.length > 0 ? ignore : undefined,
+		baseReports: baseReports.length > 0 ? baseReports : undefined,
 		maxAnnotations: core.getInput('max-annotations')
 			? parseInt(core.getInput('max-annotations'))
 			: undefined,
 		customMatchers,
 		alwaysCommentErrors,
 		commentMethod,
+		problemMatchers: problemMatchers.length > 0 ? problemMatchers : undefined,
+		checkRun,
+		checkName: core.getInput('check-name') || undefined,
+		changedLines: diffHandling('changed-lines'),
+		unchangedLines: diffHandling('unchanged-lines'),
+		outsideDiff: diffHandling('outside-diff'),
+		baseline: core.getInput('baseline') || undefined,
+		updateBaseline,
+		jobSummary,
+		testResults,
+		slowTestThreshold: numberInput(
+			'slow-test-threshold',
+			'a duration in seconds',
+			/^\d+(\.\d+)?$/,
+		),
+		maxSlowTests: numberInput('max-slow-tests', 'the number of tests to list'),
+		sarifOutput: core.getInput('sarif-output') || undefined,
+		findingsOutput: core.getInput('findings-output') || undefined,
+		validateLocations,
+		deduplicate,
+		aggregate: aggregate.length > 0 ? aggregate : undefined,
+		jobLabel: core.getInput('job-label') || undefined,
+		mode,
+		failOn,
+		maxErrors: numberInput('max-errors', 'the number of allowed annotations'),
+		maxWarnings: numberInput(
+			'max-warnings',
+			'the number of allowed annotations',
+		),
+		failScope,
+		commentKey: core.getInput('comment-key') || undefined,
+		showCommentKey,
 	};
 	core.debug(`Parsed inputs: ${JSON.stringify(inputs, null, 2)}`);
 	const yamlConfig = await loadYamlConfig();
@@ -972,10 +3255,90 @@ async function loadConfig(): Promise<Config> {
 			inputs[key as keyof Config] ?? yamlConfig[key as keyof Config] ?? value,
 		]),
 	) as unknown as Config;
+	// Only aggregate when no reports are configured, instead of the default ones.
+	if (config.aggregate.length > 0 && !inputs.reports && !yamlConfig.reports) {
+		config.reports = [];
+	}
 	core.debug(`Final config: ${JSON.stringify(config, null, 2)}`);
 	return config;
 }
 
+/** Evaluates matcher expressions relative to a single report item. */
+interface ItemSelector {
+	string(expression: string): string;
+	number(expression: string): number;
+	boolean(expression: string): boolean;
+}
+
+/** Create an annotation for a report item, or undefined if the item is ignored. */
+function createAnnotation(
+	selector: ItemSelector,
+	matcher: ReportMatcher,
+): PendingAnnotation | undefined {
+	// Figure out the level of the annotation.
+	let level: AnnotationLevel = 'error';
+	if (matcher.level) {
+		for (const [key, path] of Object.entries(matcher.level)) {
+			const check = selector.boolean(path);
+			core.debug(`Checking level ${key} with path ${path}: ${check}`);
+			if (!check) continue;
+			level = key as AnnotationLevel;
+			break;
+		}
+	}
+	// Skip if the level is ignore.
+	if (level === 'ignore') {
+		core.debug('Ignoring item.');
+		return undefined;
+	}
+
+	// Create the annotation data.
+	const message = selector.string(matcher.message);
+
+	// Skip annotations with empty messages
+	if (!message.trim()) {
+		core.debug('Skipping item with empty message.');
+		return undefined;
+	}
+
+	// Missing numbers evaluate to NaN, which is not a valid location.
+	const number = (expression?: string) => {
+		const value = expression ? selector.number(expression) : NaN;
+		return Number.isNaN(value) ? undefined : value;
+	};
+	const properties = {
+		title: matcher.title ? selector.string(matcher.title) : undefined,
+		file: matcher.file ? selector.string(matcher.file) : undefined,
+		startLine: number(matcher.startLine),
+		endLine: number(matcher.endLine),
+		startColumn: number(matcher.startColumn),
+		endColumn: number(matcher.endColumn),
+	} satisfies core.AnnotationProperties;
+
+	// Ensure annotations have a start line for proper display
+	if (!properties.startLine) properties.startLine = 1;
+
+	// Flaky items passed on a retry, so they are only notices.
+	const flaky =
+		matcher.flaky && selector.boolean(matcher.flaky)
+			? { attempts: number(matcher.attempts) }
+			: undefined;
+	if (flaky) level = 'notice';
+
+	const fixStart = number(matcher.fixStart);
+	const fixEnd = number(matcher.fixEnd);
+	const fix =
+		fixStart !== undefined && fixEnd !== undefined
+			? {
+					start: fixStart,
+					end: fixEnd,
+					text: matcher.fixText ? selector.string(matcher.fixText) : '',
+				}
+			: undefined;
+
+	return { level, message, properties, fix, flaky };
+}
+
 /** Parse an XML report using the given matcher. */
 async function parseXmlReport(
 	file: string,
@@ -997,68 +3360,177 @@ async function parseXmlReport(
 		for (const item of items) {
 			try {
 				core.debug(`Processing item: ${item}.`);
-				const xpath = xpathSelect(item);
-				// Figure out the level of the annotation.
-				let level: AnnotationLevel = 'error';
-				if (matcher.level) {
-					for (const [key, path] of Object.entries(matcher.level)) {
-						const check = xpath.boolean(path);
-						core.debug(`Checking level ${key} with path ${path}: ${check}`);
-						if (!check) continue;
-						level = key as AnnotationLevel;
-						break;
+				const annotation = createAnnotation(xpathSelect(item), matcher);
+				// Collect non-ignore annotations
+				if (annotation) allAnnotations.push(annotation);
+			} catch (error) {
+				core.warning(`Failed to process item in ${file}: ${error}`);
+				throw error; // Re-throw to fail the action on parsing errors
+			}
+		}
+	} catch (error) {
+		core.error(`Failed to parse XML report ${file}: ${error}`);
+		throw error;
+	}
+}
+
+/** Parse the test suite results of the `xml` reports whose matcher has `testSuites`. */
+async function parseTestSuites(
+	reportFiles: Map<string, Set<string>>,
+	reportMatchers: Record<string, ReportMatcher>,
+	config: Config,
+): Promise<TestSuiteResult[]> {
+	const suites: TestSuiteResult[] = [];
+	const pathOptions = getPathOptions(config);
+	for (const [matcherName, files] of reportFiles) {
+		const { format, testSuites: matcher } = reportMatchers[matcherName];
+		if (format !== 'xml' || !matcher) continue;
+		for (const file of files) {
+			const report = await readFile(file, 'utf8');
+			const doc = new DOMParser().parseFromString(report, 'text/xml');
+			let items = select(matcher.item, doc);
+			if (!Array.isArray(items) && isNodeLike(items)) items = [items];
+			if (!isArrayOfNodes(items)) continue;
+			for (const item of items) {
+				const selector = xpathSelect(item);
+				// Missing numbers evaluate to NaN, count them as zero.
+				const count = (expression?: string) => {
+					const value = expression ? selector.number(expression) : NaN;
+					return Number.isNaN(value) ? 0 : value;
+				};
+				const tests = count(matcher.tests);
+				const failed = count(matcher.failed);
+				const skipped = count(matcher.skipped);
+				const name = selector.string(matcher.name) || file;
+				const testCases: TestCaseResult[] = [];
+				if (matcher.testCase) {
+					const { testCase } = matcher;
+					for (const node of select(testCase.item, item) as Node[]) {
+						const test = xpathSelect(node);
+						const testFile = testCase.file && test.string(testCase.file);
+						const line = testCase.line ? test.number(testCase.line) : NaN;
+						testCases.push({
+							name: test.string(testCase.name),
+							suite: name,
+							file: testFile ? mapPath(testFile, file, pathOptions) : undefined,
+							line: Number.isNaN(line) ? undefined : line,
+							duration: test.number(testCase.duration) || 0,
+						});
 					}
 				}
-				// Skip if the level is ignore.
-				if (level === 'ignore') {
-					core.debug('Ignoring item.');
-					continue;
-				}
+				suites.push({
+					name,
+					report: file,
+					matcher: matcherName,
+					tests,
+					passed: Math.max(tests - failed - skipped, 0),
+					failed,
+					skipped,
+					duration: count(matcher.duration),
+					testCases,
+				});
+			}
+		}
+	}
+	if (suites.length > 0) core.info(`Parsed ${suites.length} test suite(s)`);
+	return suites;
+}
 
-				// Create the annotation data.
-				const message = xpath.string(matcher.message);
+/** Create notices for the tests slower than the threshold in seconds. */
+function findSlowTests(
+	suites: TestSuiteResult[],
+	threshold: number,
+): PendingAnnotation[] {
+	return suites.flatMap(suite =>
+		suite.testCases
+			.filter(test => test.duration > threshold)
+			.map(test => ({
+				level: 'notice' as const,
+				message: `Took ${formatDuration(test.duration)}, over the slow test threshold of ${formatDuration(threshold)}.`,
+				properties: {
+					title: `Slow test: ${test.name}`,
+					file: test.file,
+					startLine: test.line ?? 1,
+				},
+				matcher: suite.matcher,
+				report: suite.report,
+			})),
+	);
+}
 
-				// Skip annotations with empty messages
-				if (!message.trim()) {
-					core.debug('Skipping item with empty message.');
-					continue;
-				}
+/** Parse a JSON (or JSON Lines) report using the given matcher. */
+async function parseJsonReport(
+	file: string,
+	matcher: ReportMatcher,
+	allAnnotations: PendingAnnotation[],
+): Promise<void> {
+	try {
+		const report = await readFile(file, 'utf8');
+		core.debug(`Parsing report:\n${report}`);
+		let doc: unknown;
+		try {
+			doc = JSON.parse(report);
+		} catch (error) {
+			// Tools like cargo and go vet emit one JSON document per line.
+			const lines = report.split('\n').filter(line => line.trim());
+			if (lines.length < 2) throw error;
+			doc = lines.map(line => JSON.parse(line));
+		}
+		const items = selectJson(matcher.item, doc);
+		if (items.length === 0) {
+			core.warning(
+				`No items found in ${file} using JSON path '${matcher.item}'`,
+			);
+			return;
+		}
+		core.debug(`Found ${items.length} items in ${file}.`);
 
-				const properties = {
-					title: matcher.title ? xpath.string(matcher.title) : undefined,
-					file: matcher.file ? xpath.string(matcher.file) : undefined,
-					startLine: matcher.startLine
-						? xpath.number(matcher.startLine)
-						: undefined,
-					endLine: matcher.endLine ? xpath.number(matcher.endLine) : undefined,
-					startColumn: matcher.startColumn
-						? xpath.number(matcher.startColumn)
-						: undefined,
-					endColumn: matcher.endColumn
-						? xpath.number(matcher.endColumn)
-						: undefined,
-				} satisfies core.AnnotationProperties;
-
-				// Make file path relative to workspace
-				if (properties.file) {
-					const workspace = process.env.GITHUB_WORKSPACE;
-					if (workspace && properties.file.startsWith(workspace + '/')) {
-						properties.file = properties.file.slice(workspace.length + 1);
-					}
-				}
+		for (const item of items) {
+			try {
+				core.debug(`Processing item: ${JSON.stringify(item.value)}.`);
+				const annotation = createAnnotation(jsonSelect(item), matcher);
+				// Collect non-ignore annotations
+				if (annotation) allAnnotations.push(annotation);
+			} catch (error) {
+				core.warning(`Failed to process item in ${file}: ${error}`);
+				throw error; // Re-throw to fail the action on parsing errors
+			}
+		}
+	} catch (error) {
+		core.error(`Failed to parse JSON report ${file}: ${error}`);
+		throw error;
+	}
+}
 
-				// Ensure annotations have a start line for proper display
-				if (!properties.startLine) properties.startLine = 1;
+/** Parse a plain text report using the given matcher. */
+async function parseTextReport(
+	file: string,
+	matcher: ReportMatcher,
+	allAnnotations: PendingAnnotation[],
+): Promise<void> {
+	try {
+		const report = await readFile(file, 'utf8');
+		core.debug(`Parsing report:\n${report}`);
+		const items = matchTextItems(report, matcher);
+		if (items.length === 0) {
+			core.warning(`No items found in ${file} using pattern '${matcher.item}'`);
+			return;
+		}
+		core.debug(`Found ${items.length} items in ${file}.`);
 
+		for (const item of items) {
+			try {
+				core.debug(`Processing item: ${item.numbered[0]}.`);
+				const annotation = createAnnotation(textSelect(item), matcher);
 				// Collect non-ignore annotations
-				allAnnotations.push({ level, message, properties });
+				if (annotation) allAnnotations.push(annotation);
 			} catch (error) {
 				core.warning(`Failed to process item in ${file}: ${error}`);
 				throw error; // Re-throw to fail the action on parsing errors
 			}
 		}
 	} catch (error) {
-		core.error(`Failed to parse XML report ${file}: ${error}`);
+		core.error(`Failed to parse text report ${file}: ${error}`);
 		throw error;
 	}
 }
@@ -0,0 +1,22 @@
+import { type ReportMatcher } from '../main.js';
+
+/**
+ * Matcher for Checkstyle XML reports e.g. ESLint `checkstyle` formatter,
+ * golangci-lint, ktlint, detekt, PHP_CodeSniffer & stylelint.
+ * @see example ./fixtures/checkstyle.xml
+ */
+export const checkstyleMatcher = {
+	format: 'xml',
+	item: '//file/error',
+	level: {
+		ignore: '@severity = "ignore"',
+		warning: '@severity = "warning"',
+		notice: '@severity = "info"',
+	},
+	message: '@message',
+	title: '@source',
+	file: 'parent::file/@name',
+	// Missing attributes evaluate to 0 as numbers, but NaN as strings.
+	startLine: 'string(@line)',
+	startColumn: 'string(@column)',
+} satisfies ReportMatcher;
@@ -0,0 +1,36 @@
+import { type ReportMatcher } from '../main.js';
+
+/** Docs of core rules & typescript-eslint rules, other plugins are not linked. */
+const docsUrl = `if(contains(ruleId, '/'),
+	if(contains(ruleId, '@typescript-eslint/'),
+		concat('https://typescript-eslint.io/rules/', replace(ruleId, '^@typescript-eslint/', '')),
+		''
+	),
+	if(ruleId, concat('https://eslint.org/docs/latest/rules/', ruleId), '')
+)`;
+/** The autofix of the message, or the first suggestion. */
+const fix = 'if(fix, fix, suggestions[0].fix)';
+
+/**
+ * Matcher for the ESLint `json` formatter, with the exact ranges, rule docs
+ * links and the autofix as a suggestion in PR reviews.
+ * @see example ./fixtures/eslint.json
+ */
+export const eslintJsonMatcher = {
+	format: 'json',
+	item: '$[*].messages[*]',
+	level: {
+		warning: 'eq(severity, 1)',
+	},
+	// Append the rule docs link.
+	message: `normalize(concat(message, if(${docsUrl}, concat(' \n ', ${docsUrl}), '')))`,
+	title: 'ruleId',
+	file: '^.filePath',
+	startLine: 'line',
+	endLine: 'endLine',
+	startColumn: 'column',
+	endColumn: 'endColumn',
+	fixStart: `${fix}.range[0]`,
+	fixEnd: `${fix}.range[1]`,
+	fixText: `${fix}.text`,
+} satisfies ReportMatcher;
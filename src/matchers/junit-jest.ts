@@ -8,15 +8,20 @@ export const junitJestMatcher = {
 	format: 'xml',
 	item: '//testcase',
 	level: {
-		// Ignore testcase elements that are successful.
-		ignore: 'not(failure) and not(skipped) and not(error)',
+		// Ignore testcase elements that are successful and the reruns of retried
+		// tests, i.e. when the first testcase of the same test failed.
+		ignore: `not(failure | skipped | error | flakyFailure | flakyError)
+			or preceding-sibling::testcase[
+				string(@name) = string(current()/@name)
+				and string(@classname) = string(current()/@classname)
+			][last()][failure or error]`,
 		notice: 'skipped',
 	},
 	// Select message based on the result type.
 	message: `
 		if(error, normalize(concat(error/@message, " \n ", error/text())),
 			if(skipped, skipped/@message,
-				normalize(failure/text())
+				normalize((failure | flakyFailure | flakyError)/text())
 			)
 		)`,
 	title: '@name',
@@ -24,4 +29,34 @@ export const junitJestMatcher = {
 	// Stack trace usually contains line and column: xxx.spec.yy:line:column
 	startLine: `match(failure, '.*.spec.\\w{2,3}:(\\d+):.*')`,
 	startColumn: `match(failure, '.*.spec.\\w{2,3}:\\d+:(\\d+).*')`,
+	// Passed on a Surefire rerun, or a later testcase of the same test passed.
+	flaky: `flakyFailure or flakyError or following-sibling::testcase[
+		string(@name) = string(current()/@name)
+		and string(@classname) = string(current()/@classname)
+		and not(failure | error | skipped)
+	]`,
+	attempts: `count(flakyFailure | flakyError) + count(../testcase[
+		string(@name) = string(current()/@name)
+		and string(@classname) = string(current()/@classname)
+	])`,
+	// Counted from the testcase elements, as not all tools write the totals.
+	// A retried test is counted once, with the result of its last attempt,
+	// using the same rule as the ignored reruns above.
+	testSuites: {
+		item: '//testsuite[not(testsuite)]',
+		name: '@name',
+		tests: `count(last-attempts(testcase,
+			"concat(@classname, ' ', @name)", "failure or error"))`,
+		failed: `count(last-attempts(testcase,
+			"concat(@classname, ' ', @name)", "failure or error")[failure or error])`,
+		skipped: `count(last-attempts(testcase,
+			"concat(@classname, ' ', @name)", "failure or error")[skipped])`,
+		duration: 'if(@time, @time, sum(testcase/@time))',
+		testCase: {
+			item: 'testcase',
+			name: '@name',
+			file: '@file',
+			duration: '@time',
+		},
+	},
 } satisfies ReportMatcher;
@@ -8,18 +8,57 @@ export const junitMatcher = {
 	format: 'xml',
 	item: '//testcase',
 	level: {
-		// Ignore testcase elements that are successful.
-		ignore: 'not(failure) and not(skipped) and not(error)',
+		// Ignore testcase elements that are successful and the reruns of retried
+		// tests, i.e. when the first testcase of the same test failed.
+		ignore: `not(failure | skipped | error | flakyFailure | flakyError)
+			or preceding-sibling::testcase[
+				string(@name) = string(current()/@name)
+				and string(@classname) = string(current()/@classname)
+			][last()][failure or error]`,
 		notice: 'skipped',
 	},
 	// Select message based on the result type.
 	message: `
 		if(error, normalize(concat(error/@message, " \n ", error/text())),
 			if(skipped, skipped/@message,
-				normalize(concat(failure/@message, " \n ", failure/text()))
+				normalize(concat(
+					(failure | flakyFailure | flakyError)/@message, " \n ",
+					(failure | flakyFailure | flakyError)/text()
+				))
 			)
 		)`,
 	title: 'concat(@classname, " - ", @name)',
 	file: '@file',
 	startLine: '@line',
+	// Passed on a Surefire rerun, or a later testcase of the same test passed.
+	flaky: `flakyFailure or flakyError or following-sibling::testcase[
+		string(@name) = string(current()/@name)
+		and string(@classname) = string(current()/@classname)
+		and not(failure | error | skipped)
+	]`,
+	attempts: `count(flakyFailure | flakyError) + count(../testcase[
+		string(@name) = string(current()/@name)
+		and string(@classname) = string(current()/@classname)
+	])`,
+	// Counted from the testcase elements, as not all tools write the totals.
+	// A retried test is counted once, with the result of its last attempt,
+	// using the same rule as the ignored reruns above.
+	testSuites: {
+		item: '//testsuite[not(testsuite)]',
+		name: '@name',
+		tests: `count(last-attempts(testcase,
+			"concat(@classname, ' ', @name)", "failure or error"))`,
+		failed: `count(last-attempts(testcase,
+			"concat(@classname, ' ', @name)", "failure or error")[failure or error])`,
+		skipped: `count(last-attempts(testcase,
+			"concat(@classname, ' ', @name)", "failure or error")[skipped])`,
+		duration: 'if(@time, @time, sum(testcase/@time))',
+		testCase: {
+			item: 'testcase',
+			name: 'concat(@classname, " - ", @name)',
+			file: '@file',
+			line: '@line',
+			duration: '@time',
+		},
+	},
 } satisfies ReportMatcher;
@@ -0,0 +1,48 @@
+import { type ReportMatcher } from '../main.js';
+
+/** The rule id of the result, either inline or as a rule reference. */
+const ruleId = 'if(ruleId, ruleId, rule.id)';
+/** The rule descriptor of the result, from the driver or a tool extension. */
+const rule = `find(^.tool..rules[*], 'id', ${ruleId})`;
+/** The level of the result, defaulting to the rule configuration. */
+const level = `if(level, level, ${rule}.defaultConfiguration.level)`;
+/** The primary location of the result. */
+const location = 'locations[0].physicalLocation';
+
+/**
+ * Matcher for SARIF 2.1.0 reports e.g. CodeQL, Semgrep, Trivy, Checkov & tflint.
+ * @see example ./fixtures/sarif.json
+ */
+export const sarifMatcher = {
+	format: 'json',
+	item: '$.runs[*].results[*]',
+	level: {
+		// Ignore results that are not problems e.g. passed checks.
+		ignore: `or(eq(${level}, 'none'), eq(kind, 'pass'), eq(kind, 'notApplicable'))`,
+		error: `eq(${level}, 'error')`,
+		notice: `eq(${level}, 'note')`,
+		// SARIF defaults to warning when no level is given.
+		warning: 'true()',
+	},
+	// Fall back to the rule's message strings & append the rule help link.
+	message: `normalize(concat(
+		if(message.text, message.text, get(${rule}.messageStrings, message.id).text),
+		if(${rule}.helpUri, concat(' \n ', ${rule}.helpUri), '')
+	))`,
+	title: `if(${rule}.shortDescription.text,
+		concat(${ruleId}, ': ', ${rule}.shortDescription.text),
+		${ruleId}
+	)`,
+	// Resolve the uri against its base e.g. %SRCROOT% and strip the file scheme.
+	file: `decode(replace(
+		concat(
+			get(^.originalUriBaseIds, ${location}.artifactLocation.uriBaseId).uri,
+			${location}.artifactLocation.uri
+		),
+		'^file://', ''
+	))`,
+	startLine: `${location}.region.startLine`,
+	endLine: `${location}.region.endLine`,
+	startColumn: `${location}.region.startColumn`,
+	endColumn: `${location}.region.endColumn`,
+} satisfies ReportMatcher;
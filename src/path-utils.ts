@@ -0,0 +1,68 @@
+import { posix } from 'node:path';
+import { minimatch } from 'minimatch';
+
+/** Rewrite the file paths of a report e.g. produced in a container or subproject. */
+export interface PathMapping {
+	/** Glob matching the report files to rewrite, all reports if omitted. */
+	report?: string;
+	/** Prefix of the file paths to replace e.g. `/app/` */
+	from?: string;
+	/** Replacement for the prefix, removed if omitted e.g. `services/api/` */
+	to?: string;
+	/** Directory the relative file paths are relative to e.g. `packages/foo` */
+	baseDir?: string;
+	/** When true, `from` matches regardless of case e.g. `C:\Build\` */
+	ignoreCase?: boolean;
+}
+
+/** Options for rewriting the file paths of annotations. */
+export interface PathOptions {
+	/** Workspace directory to make absolute file paths relative to. */
+	workspace?: string;
+	/** Mappings to apply, the first matching one is used. */
+	mappings: PathMapping[];
+	/** When true, Windows `\` separators are replaced with `/`. */
+	normalizeSeparators: boolean;
+}
+
+/** Whether the path is absolute on either POSIX or Windows. */
+function isAbsolute(file: string): boolean {
+	return file.startsWith('/') || /^[a-z]:[\\/]/i.test(file);
+}
+
+/** Rewrite a file path of the report to be relative to the repository. */
+export function mapPath(
+	file: string,
+	report: string,
+	options: PathOptions,
+): string {
+	const normalize = (path: string) =>
+		options.normalizeSeparators ? path.replace(/\\/g, '/') : path;
+	let mapped = normalize(file);
+
+	// Make file path relative to workspace
+	const workspace = options.workspace && normalize(options.workspace);
+	if (workspace && mapped.startsWith(workspace + '/')) {
+		mapped = mapped.slice(workspace.length + 1);
+	}
+
+	for (const mapping of options.mappings) {
+		if (mapping.report && !minimatch(normalize(report), mapping.report)) {
+			continue;
+		}
+		if (mapping.from) {
+			const from = normalize(mapping.from);
+			const prefix = mapped.slice(0, from.length);
+			const matches = mapping.ignoreCase
+				? prefix.toLowerCase() === from.toLowerCase()
+				: prefix === from;
+			if (!matches) continue;
+			mapped = (mapping.to ?? '') + mapped.slice(from.length);
+		}
+		if (mapping.baseDir && !isAbsolute(mapped)) {
+			mapped = posix.join(normalize(mapping.baseDir), mapped);
+		}
+		break;
+	}
+	return mapped;
+}
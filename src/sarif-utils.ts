@@ -0,0 +1,99 @@
+import { fingerprint } from './baseline-utils.js';
+import { type PendingAnnotation } from './main.js';
+
+/** Map annotation levels to SARIF result levels. */
+const sarifLevels = {
+	error: 'error',
+	warning: 'warning',
+	notice: 'note',
+	ignore: 'none',
+} as const;
+
+/** A SARIF 2.1.0 result, limited to the properties written by the action. */
+interface SarifResult {
+	ruleId: string;
+	level: (typeof sarifLevels)[keyof typeof sarifLevels];
+	message: { text: string };
+	locations: {
+		physicalLocation: {
+			artifactLocation: { uri: string; uriBaseId: string };
+			region: {
+				startLine?: number;
+				endLine?: number;
+				startColumn?: number;
+				endColumn?: number;
+			};
+		};
+	}[];
+	partialFingerprints: Record<string, string>;
+}
+
+/** A SARIF 2.1.0 log, limited to the properties written by the action. */
+export interface SarifLog {
+	$schema: string;
+	version: '2.1.0';
+	runs: {
+		tool: {
+			driver: {
+				name: string;
+				informationUri: string;
+				rules: { id: string }[];
+			};
+		};
+		results: SarifResult[];
+	}[];
+}
+
+/**
+ * Convert the annotations to a SARIF log with a run per matcher, using the
+ * titles as rule ids. Annotations without a file are left out as code scanning
+ * requires a location.
+ * @see https://docs.oasis-open.org/sarif/sarif/v2.1.0/sarif-v2.1.0.html
+ */
+export function createSarifLog(annotations: PendingAnnotation[]): SarifLog {
+	const runs = new Map<string, SarifLog['runs'][number]>();
+	for (const annotation of annotations) {
+		const { file, title, startLine, endLine, startColumn, endColumn } =
+			annotation.properties;
+		if (!file) continue;
+		const tool = annotation.matcher ?? 'report-annotate';
+		let run = runs.get(tool);
+		if (!run) {
+			run = {
+				tool: {
+					driver: {
+						name: tool,
+						informationUri: 'https://github.com/granodigital/report-annotate',
+						rules: [],
+					},
+				},
+				results: [],
+			};
+			runs.set(tool, run);
+		}
+		const ruleId = title || tool;
+		if (!run.tool.driver.rules.some(rule => rule.id === ruleId)) {
+			run.tool.driver.rules.push({ id: ruleId });
+		}
+		run.results.push({
+			ruleId,
+			level: sarifLevels[annotation.level],
+			message: { text: annotation.message },
+			locations: [
+				{
+					physicalLocation: {
+						artifactLocation: { uri: file, uriBaseId: '%SRCROOT%' },
+						region: { startLine, endLine, startColumn, endColumn },
+					},
+				},
+			],
+			// Tracks the alert across line changes, like the baseline.
+			partialFingerprints: { 'reportAnnotate/v1': fingerprint(annotation) },
+		});
+	}
+	return {
+		$schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+		version: '2.1.0',
+		runs: [...runs.values()],
+	};
+}
@@ -0,0 +1,212 @@
+import { type ReportMatcher } from './main.js';
+
+/**
+ * A report item matched from one or more lines of a `text` report. Numbered
+ * groups continue across the patterns of a multi-line match, index 0 being the
+ * whole first line.
+ */
+export interface TextItem {
+	named: Record<string, string | undefined>;
+	numbered: (string | undefined)[];
+}
+
+/** Compile a regular expression, including the expression in errors. */
+function compile(pattern: string): RegExp {
+	try {
+		return new RegExp(pattern);
+	} catch (error) {
+		const msg = error instanceof Error ? error.message : 'Unknown error';
+		throw new Error(`Error parsing regular expression "${pattern}": ${msg}`, {
+			cause: error,
+		});
+	}
+}
+
+/** Count the capture groups of a regular expression. */
+function countGroups(regexp: RegExp): number {
+	// An empty alternative always matches, returning all groups as undefined.
+	return new RegExp(`${regexp.source}|`).exec('')!.length - 1;
+}
+
+/** Merge the groups of consecutive line matches into a single item. */
+function toItem(matches: RegExpExecArray[]): TextItem {
+	const item: TextItem = { named: {}, numbered: [matches[0][0]] };
+	for (const match of matches) {
+		item.numbered.push(...match.slice(1));
+		for (const [name, value] of Object.entries(match.groups ?? {})) {
+			// Earlier lines may have captured the group already.
+			if (value !== undefined || !(name in item.named)) {
+				item.named[name] = value;
+			}
+		}
+	}
+	return item;
+}
+
+/**
+ * Match the report line by line like GitHub problem matchers: the `item`
+ * pattern starts a match and each of `patterns` must match the following
+ * lines. With `loop` the last pattern keeps matching, creating an item per line.
+ */
+export function matchTextItems(
+	report: string,
+	matcher: ReportMatcher,
+): TextItem[] {
+	const regexps = [matcher.item, ...(matcher.patterns ?? [])].map(compile);
+	const lines = report.split(/\r?\n/);
+	const items: TextItem[] = [];
+	let i = 0;
+	while (i < lines.length) {
+		const matches: RegExpExecArray[] = [];
+		let j = i;
+		for (const regexp of regexps) {
+			const match = j < lines.length ? regexp.exec(lines[j]) : null;
+			if (!match) break;
+			matches.push(match);
+			j++;
+		}
+		if (matches.length < regexps.length) {
+			i++;
+			continue;
+		}
+		items.push(toItem(matches));
+		if (matcher.loop && regexps.length > 1) {
+			const last = regexps.at(-1)!;
+			let match: RegExpExecArray | null;
+			while (j < lines.length && (match = last.exec(lines[j]))) {
+				items.push(toItem([...matches.slice(0, -1), match]));
+				j++;
+			}
+		}
+		i = j;
+	}
+	return items;
+}
+
+/**
+ * Utility to select values from a TextItem. Expressions are capture group
+ * names or numbers, optionally with `[n]` to pick the nth comma separated part
+ * e.g. `location[1]`. Booleans are true when the group is not empty, or when
+ * it matches the case-insensitive regular expression given after `=` e.g.
+ * `severity=^warn`.
+ */
+export const textSelect = (item: TextItem) => ({
+	/** Resolve the value of a capture group expression. */
+	resolve(expression: string): string | undefined {
+		const [, group, index] =
+			expression.trim().match(/^(\w+)(?:\[(\d+)\])?$/) ?? [];
+		if (!group) throw new Error(`Invalid capture group "${expression}"`);
+		const isNumber = /^\d+$/.test(group);
+		if (
+			isNumber ? Number(group) >= item.numbered.length : !(group in item.named)
+		) {
+			throw new Error(`Unknown capture group "${group}"`);
+		}
+		const value = isNumber ? item.numbered[Number(group)] : item.named[group];
+		if (index === undefined) return value;
+		return value?.split(',')[Number(index)]?.trim();
+	},
+	/** Evaluate the expression and return the result as a trimmed string. */
+	string(expression: string): string {
+		// Columns are often padded with whitespace e.g. eslint stylish.
+		return this.resolve(expression)?.trim() ?? '';
+	},
+	/** Evaluate the expression and return the result as a number. */
+	number(expression: string): number {
+		const value = this.resolve(expression)?.trim();
+		return value ? Number(value) : NaN;
+	},
+	/** Evaluate the expression and return the result as a boolean. */
+	boolean(expression: string): boolean {
+		const separator = expression.indexOf('=');
+		if (separator === -1) return !!this.resolve(expression);
+		const value = this.resolve(expression.slice(0, separator)) ?? '';
+		return new RegExp(expression.slice(separator + 1), 'i').test(value);
+	},
+});
+
+/** A single line pattern of a GitHub problem matcher. */
+interface ProblemPattern {
+	regexp: string;
+	file?: number;
+	fromPath?: number;
+	location?: number;
+	line?: number;
+	column?: number;
+	endLine?: number;
+	endColumn?: number;
+	severity?: number;
+	code?: number;
+	message?: number;
+	loop?: boolean;
+}
+
+/** A GitHub problem matcher definition. */
+export interface ProblemMatcher {
+	owner: string;
+	severity?: 'error' | 'warning';
+	pattern: ProblemPattern[];
+}
+
+/**
+ * Convert a GitHub problem matcher into an equivalent `text` report matcher.
+ * @see https://github.com/actions/toolkit/blob/main/docs/problem-matchers.md
+ */
+export function fromProblemMatcher(
+	problemMatcher: ProblemMatcher,
+): ReportMatcher {
+	const [first, ...rest] = problemMatcher.pattern;
+	if (!first) {
+		throw new Error(`Problem matcher ${problemMatcher.owner} has no patterns`);
+	}
+	// Resolving the file relative to another path is not supported, rather than
+	// annotating the wrong files.
+	if (problemMatcher.pattern.some(pattern => pattern.fromPath !== undefined)) {
+		throw new Error(
+			`Problem matcher ${problemMatcher.owner} uses fromPath, which is not supported`,
+		);
+	}
+	// Map each pattern's group numbers to numbers across all patterns.
+	const refs: Partial<Record<keyof ProblemPattern, string>> = {};
+	let offset = 0;
+	for (const pattern of problemMatcher.pattern) {
+		for (const [key, value] of Object.entries(pattern)) {
+			if (typeof value === 'number') {
+				refs[key as keyof ProblemPattern] = `${offset + value}`;
+			}
+		}
+		offset += countGroups(compile(pattern.regexp));
+	}
+	if (!refs.message) {
+		throw new Error(
+			`Problem matcher ${problemMatcher.owner} has no message group`,
+		);
+	}
+
+	// The location is either `line`, `line,column` or `line,column,endLine,endColumn`.
+	const location = (index: number) =>
+		refs.location ? `${refs.location}[${index}]` : undefined;
+	const level: ReportMatcher['level'] = {};
+	if (refs.severity) {
+		level.error = `${refs.severity}=^err`;
+		level.notice = `${refs.severity}=^(notice|info|note)`;
+		level.warning = `${refs.severity}=^warn`;
+	}
+	// Group 0 is the whole first line, so an empty regular expression always matches.
+	if (problemMatcher.severity === 'warning') level.warning = '0=';
+
+	return {
+		format: 'text',
+		item: first.regexp,
+		patterns: rest.length ? rest.map(pattern => pattern.regexp) : undefined,
+		loop: rest.at(-1)?.loop,
+		level,
+		message: refs.message,
+		title: refs.code,
+		file: refs.file ?? '',
+		startLine: refs.line ?? location(0),
+		startColumn: refs.column ?? location(1),
+		endLine: refs.endLine ?? location(2),
+		endColumn: refs.endColumn ?? location(3),
+	};
+}
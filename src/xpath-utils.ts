@@ -1,4 +1,9 @@
-import xpath, { type XString, type XBoolean, type Evaluator } from 'xpath';
+import xpath, {
+	type XString,
+	type XBoolean,
+	type XNodeSet,
+	type Evaluator,
+} from 'xpath';
 
 // Extend xpath types as they are incomplete.
 declare module 'xpath' {
@@ -18,6 +23,8 @@ declare module 'xpath' {
 		nodes: Node[];
 		size: number;
 		toString(): string;
+		/** The nodes in document order. */
+		toArray(): Node[];
 	}
 
 	interface EvaluatorOptions {
@@ -64,14 +71,46 @@ const functions = {
 	): Node {
 		return condition.booleanValue() ? then : otherwise;
 	},
+	/**
+	 * Keep the last attempt of each test: a node is a rerun of the first node
+	 * with the same key when that first node matches `failed`.
+	 */
+	'last-attempts'(
+		_context: unknown,
+		nodes: XNodeSet,
+		key: XString,
+		failed: XString,
+	): Node[] {
+		const keyEvaluator = xpath.parse(`${key}`);
+		const failedEvaluator = xpath.parse(`${failed}`);
+		const attempts: Node[] = [];
+		// The index of the last attempt of each key, if its first node failed.
+		const retried = new Map<string, number | undefined>();
+		for (const node of nodes.toArray()) {
+			const name = keyEvaluator.evaluateString({ node, functions });
+			if (!retried.has(name)) {
+				const isFailed = failedEvaluator.evaluateBoolean({ node, functions });
+				retried.set(name, isFailed ? attempts.length : undefined);
+			} else if (retried.get(name) !== undefined) {
+				attempts[retried.get(name)!] = node;
+				continue;
+			}
+			attempts.push(node);
+		}
+		return attempts;
+	},
 	/** Trim & collapse whitespace from the input string, except newlines. */
 	normalize(_context: unknown, input: XString): string {
 		return `${input}`.replaceAll(/^\s+|\s+$/gm, '');
 	},
 };
 
-/** Utility to select items from a Node with extra functions like `replace`. */
+/**
+ * Utility to select items from a Node with extra functions like `replace`,
+ * and `current()` returning the node e.g. to compare it in a predicate.
+ */
 export const xpathSelect = (node: Node) => ({
+	functions: { ...functions, current: () => node },
 	/** Parse the expression and return an evaluator. */
 	parse(expression: string): Evaluator {
 		try {
@@ -89,15 +128,24 @@ export const xpathSelect = (node: Node) => ({
 	},
 	/** Evaluate the expression and return the result as a string. */
 	string(expression: string): string {
-		return this.parse(expression).evaluateString({ node, functions });
+		return this.parse(expression).evaluateString({
+			node,
+			functions: this.functions,
+		});
 	},
 	/** Evaluate the expression and return the result as a number. */
 	number(expression: string): number {
-		return this.parse(expression).evaluateNumber({ node, functions });
+		return this.parse(expression).evaluateNumber({
+			node,
+			functions: this.functions,
+		});
 	},
 	/** Evaluate the expression and return the result as a boolean. */
 	boolean(expression: string): boolean {
-		return this.parse(expression).evaluateBoolean({ node, functions });
+		return this.parse(expression).evaluateBoolean({
+			node,
+			functions: this.functions,
+		});
 	},
 });
 